@@ -0,0 +1,24 @@
+/**
+ * fast-check adapter of the Valibot mock generator, generating the values
+ * of a schema as a fast-check arbitrary that shrinks towards minimal valid
+ * counterexamples.
+ *
+ * @example
+ * ```ts
+ * import fc from "fast-check";
+ * import * as v from "valibot";
+ * import { createArbitrary } from "@diister/valibot-mock/arbitrary";
+ *
+ * const UserSchema = v.object({
+ *   name: v.pipe(v.string(), v.minLength(2)),
+ *   age: v.pipe(v.number(), v.integer(), v.minValue(18)),
+ * });
+ *
+ * fc.assert(fc.property(createArbitrary(UserSchema), (user) => user.age >= 18));
+ * ```
+ *
+ * @module
+ */
+
+export { createArbitrary } from "./src/arbitrary.ts";
+export type { ArbitraryOptions } from "./src/types.ts";
@@ -71,11 +71,40 @@
 
 export {
   createMockGenerator,
+  handleSchema,
+  registerHandler,
 } from "./src/generator.ts";
+export { defineFactory } from "./src/factory.ts";
+export { buildDataset } from "./src/dataset.ts";
 
 // Re-export utility types and functions
-export type { VOID, FakeGeneratorFn } from "./src/types.ts";
+export type {
+  Dataset,
+  DatasetCollection,
+  DatasetRelation,
+  Factory,
+  FactoryOptions,
+  FakeGeneratorFn,
+  GenerationContext,
+  InvalidTarget,
+  InvalidValue,
+  MockGenerator,
+  MockGeneratorOptions,
+  OverrideFn,
+  Overrides,
+  PresenceProbabilities,
+  ResolvedMockGeneratorOptions,
+  ResolvedSchemaHandler,
+  SchemaHandler,
+  Sequences,
+  Session,
+} from "./src/types.ts";
+export type { DiscriminatorWeights } from "./src/variant.ts";
+export { VOID } from "./src/types.ts";
 export { fake } from "./src/fake.ts";
+export { presence } from "./src/presence.ts";
+export { sequence } from "./src/sequence.ts";
+export { createSession, identifier, reference } from "./src/reference.ts";
 
 // Export commonly used Faker locales for convenience
 import { 
@@ -0,0 +1,55 @@
+/**
+ * Returns every pipe action of a schema matching the given type
+ *
+ * @param schema - The schema to inspect
+ * @param type - The action type (e.g. `"min_value"`)
+ * @returns The matching actions, in pipe order
+ */
+export function getActions(schema: any, type: string): any[] {
+  return schema.pipe?.filter((pipe: any) => pipe?.type === type) ?? [];
+}
+
+/**
+ * Returns the requirements of every pipe action of a schema matching the given type
+ *
+ * @param schema - The schema to inspect
+ * @param type - The action type (e.g. `"min_value"`)
+ * @returns The requirements of the matching actions, in pipe order
+ */
+export function getRequirements(schema: any, type: string): any[] {
+  return getActions(schema, type).map((action) => action.requirement);
+}
+
+/**
+ * Checks whether a schema pipe contains an action of the given type
+ *
+ * @param schema - The schema to inspect
+ * @param type - The action type (e.g. `"integer"`)
+ */
+export function hasAction(schema: any, type: string): boolean {
+  return getActions(schema, type).length > 0;
+}
+
+/**
+ * Resolves the count (length, size, entries...) range to generate for a
+ * schema from its exact, minimum and maximum actions, falling back to a
+ * default range for the bounds it does not constrain
+ *
+ * @param schema - The schema to inspect
+ * @param types - The exact, minimum and maximum action types
+ * @param defaults - The default range
+ * @returns The range to draw the count from, and the minimum count required by the schema
+ */
+export function getCountRange(
+  schema: any,
+  types: { exact: string; min: string; max: string },
+  defaults: { min: number; max: number },
+): { min: number; max: number; required: number } {
+  const exact = getRequirements(schema, types.exact)[0];
+  if (exact !== undefined) {
+    return { min: exact, max: exact, required: exact };
+  }
+  const required = Math.max(0, ...getRequirements(schema, types.min));
+  const max = Math.min(Math.max(required, defaults.max), ...getRequirements(schema, types.max));
+  return { min: Math.min(Math.max(required, defaults.min), max), max, required };
+}
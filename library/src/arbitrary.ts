@@ -0,0 +1,68 @@
+import type * as v from "valibot";
+import fc from "fast-check";
+import { en, type Randomizer } from "@faker-js/faker";
+import type { ArbitraryOptions } from "./types.ts";
+import { createMockGenerator } from "./generator.ts";
+
+/**
+ * Exclusive upper bound of a recorded draw
+ */
+const CHOICE_RANGE = 2 ** 31;
+
+/**
+ * Marks a sequence of draws the schema could not be generated from
+ */
+const NO_VALUE = Symbol("no_value");
+
+/**
+ * Faker randomizer replaying a recorded sequence of draws, then drawing the
+ * lowest value once the sequence is exhausted
+ */
+function createReplayRandomizer(choices: number[]): Randomizer {
+  let index = 0;
+  return {
+    next: () => (choices[index++] ?? 0) / CHOICE_RANGE,
+    seed: () => {},
+  };
+}
+
+/**
+ * Creates a fast-check arbitrary generating values of a schema with the same
+ * handlers as `createMockGenerator()`.
+ *
+ * Every random draw Faker makes is read from a sequence of integers produced
+ * by fast-check. Shrinking that sequence (fewer draws, lower draws) moves the
+ * draws towards their lowest value: shorter strings and arrays, lower numbers,
+ * first options. Sequences the schema cannot be generated from are filtered
+ * out, so every shrunk value is still valid. Options carrying state across
+ * values, `seedByPath` and `session`, are not supported.
+ *
+ * @param schema - The schema to generate values for
+ * @param options - The generator options, with the Faker locale
+ * @returns The arbitrary of the schema output
+ */
+export function createArbitrary<TSchema extends v.GenericSchema>(
+  schema: TSchema,
+  options: ArbitraryOptions = {},
+): fc.Arbitrary<v.InferOutput<TSchema>> {
+  const { locale = [en], maxChoices = 1000, ...generatorOptions } = options;
+  if ('seedByPath' in generatorOptions || 'session' in generatorOptions) {
+    console.error(`Unsupported arbitrary options:`, options);
+    throw new Error(`createArbitrary() does not support the seedByPath and session options`);
+  }
+
+  return fc
+    .array(fc.nat({ max: CHOICE_RANGE - 1 }), { maxLength: maxChoices, size: 'max' })
+    .map((choices): v.InferOutput<TSchema> | typeof NO_VALUE => {
+      // A fresh generator per value, so that replaying the same draws gives
+      // the same value whatever sequences and references were drawn before
+      const randomizer = createReplayRandomizer(choices);
+      const generator = createMockGenerator(schema, { ...generatorOptions, faker: { locale, randomizer } });
+      try {
+        return generator.generate();
+      } catch {
+        return NO_VALUE;
+      }
+    })
+    .filter((value): value is v.InferOutput<TSchema> => value !== NO_VALUE);
+}
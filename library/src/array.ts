@@ -0,0 +1,203 @@
+import type { Faker } from "@faker-js/faker";
+import { getActions, getRequirements, hasAction } from "./actions.ts";
+
+/**
+ * Number of attempts to generate a single item satisfying the item-level constraints
+ */
+const ITEM_ATTEMPTS = 100;
+
+/**
+ * Constraints of an array schema, collected from its pipe
+ */
+export interface ArrayConstraints {
+  /** Minimum number of items */
+  minLength: number;
+  /** Maximum number of items, `null` when unbounded */
+  maxLength: number | null;
+  /** Values the array must include */
+  includes: unknown[];
+  /** Values the array must not include */
+  excludes: unknown[];
+  /** Checks every item must pass, from `checkItems` and `everyItem` */
+  itemChecks: Array<(item: unknown, index: number, array: unknown[]) => boolean>;
+  /** Checks at least one item must pass, from `someItem` */
+  someItemChecks: Array<(item: unknown) => boolean>;
+  /** Checks on the whole array, from `check` */
+  arrayChecks: Array<(array: unknown[]) => boolean>;
+}
+
+/**
+ * Collects the constraints of an array schema
+ *
+ * @param schema - The array schema
+ * @returns The collected constraints
+ */
+export function getArrayConstraints(schema: any): ArrayConstraints {
+  const exactLength = getRequirements(schema, 'length')[0];
+  const minLengths = getRequirements(schema, 'min_length');
+  const maxLengths = getRequirements(schema, 'max_length');
+
+  return {
+    minLength: exactLength ?? Math.max(hasAction(schema, 'non_empty') ? 1 : 0, ...minLengths),
+    maxLength: exactLength ?? (maxLengths.length > 0 ? Math.min(...maxLengths) : null),
+    includes: getRequirements(schema, 'includes'),
+    excludes: getRequirements(schema, 'excludes'),
+    itemChecks: [
+      ...getRequirements(schema, 'check_items'),
+      ...getRequirements(schema, 'every_item'),
+    ],
+    someItemChecks: getRequirements(schema, 'some_item'),
+    arrayChecks: getActions(schema, 'check').map((action) => action.requirement),
+  };
+}
+
+/**
+ * Returns a structural key of a value, equal for values that are deeply equal
+ *
+ * @param value - The value to identify
+ * @returns The key of the value
+ */
+export function toKey(value: unknown): string {
+  if (typeof value === 'bigint') return `${value}n`;
+  if (value instanceof Date) return `Date(${value.getTime()})`;
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+  if (Array.isArray(value)) return `[${value.map(toKey).join(',')}]`;
+  if (value instanceof Map) return `Map(${[...value].map(([key, item]) => `${toKey(key)}:${toKey(item)}`).sort().join(',')})`;
+  if (value instanceof Set) return `Set(${[...value].map(toKey).sort().join(',')})`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${toKey((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Draws values until the requested number of distinct ones is reached, or
+ * until no new value shows up for too many consecutive draws
+ *
+ * @param count - The number of distinct values wanted
+ * @param draw - Draws a new value
+ * @returns The distinct values, possibly fewer than requested
+ */
+export function drawDistinct(count: number, draw: () => unknown): unknown[] {
+  const values = new Map<string, unknown>();
+  let misses = 0;
+  while (values.size < count && misses < ITEM_ATTEMPTS) {
+    const value = draw();
+    const key = toKey(value);
+    if (values.has(key)) {
+      misses++;
+    } else {
+      values.set(key, value);
+      misses = 0;
+    }
+  }
+  return [...values.values()];
+}
+
+/**
+ * Runs a user check, treating thrown errors as failures
+ */
+function passes(check: () => boolean): boolean {
+  try {
+    return check();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detects whether one of the whole-array checks requires distinct items, by
+ * probing it with a single item, a repeated item and two distinct items
+ *
+ * @param checks - The whole-array checks
+ * @param items - Sample items, used as probes
+ * @returns Whether the items must be distinct
+ */
+export function requiresDistinctItems(checks: Array<(array: unknown[]) => boolean>, items: unknown[]): boolean {
+  const first = items[0];
+  if (checks.length === 0 || items.length === 0) {
+    return false;
+  }
+  const other = items.find((item) => toKey(item) !== toKey(first));
+  return checks.some((check) =>
+    passes(() => check([first])) &&
+    !passes(() => check([first, first])) &&
+    (other === undefined || passes(() => check([first, other])))
+  );
+}
+
+/**
+ * Builds an array satisfying the given constraints.
+ *
+ * Items are checked one by one against the item-level constraints and only
+ * the failing item is generated again. Distinct items, `someItem` and
+ * `includes` requirements are then satisfied by replacing or inserting items.
+ *
+ * @param constraints - The constraints to satisfy
+ * @param length - The number of items to generate
+ * @param generateItem - Generates a new item for the given index
+ * @param faker - The Faker instance to draw from
+ * @returns The generated array
+ */
+export function buildArray(
+  constraints: ArrayConstraints,
+  length: number,
+  generateItem: (index: number) => unknown,
+  faker: Faker,
+): unknown[] {
+  const items: unknown[] = [];
+  const maxLength = constraints.maxLength ?? Infinity;
+
+  const acceptsItem = (item: unknown, index: number) =>
+    !constraints.excludes.includes(item) &&
+    constraints.itemChecks.every((check) => passes(() => check(item, index, [...items.slice(0, index), item])));
+
+  const drawItem = (index: number, accepts: (item: unknown, index: number) => boolean = acceptsItem) => {
+    let item: unknown;
+    for (let attempt = 0; attempt < ITEM_ATTEMPTS; attempt++) {
+      item = generateItem(index);
+      if (accepts(item, index)) break;
+    }
+    return item;
+  };
+
+  for (let i = 0; i < length; i++) {
+    items.push(drawItem(i));
+  }
+
+  if (requiresDistinctItems(constraints.arrayChecks, items)) {
+    const seen = new Set<string>();
+    for (let i = 0; i < items.length; i++) {
+      if (seen.has(toKey(items[i]))) {
+        items[i] = drawItem(i, (item, index) => acceptsItem(item, index) && !seen.has(toKey(item)));
+      }
+      seen.add(toKey(items[i]));
+    }
+  }
+
+  for (const check of constraints.someItemChecks) {
+    if (items.some((item) => passes(() => check(item)))) continue;
+    const index = items.length < maxLength
+      ? items.length
+      : faker.number.int({ min: 0, max: Math.max(0, items.length - 1) });
+    items[index] = drawItem(index, (item, index) => acceptsItem(item, index) && passes(() => check(item)));
+  }
+
+  for (const value of constraints.includes) {
+    if (items.includes(value)) continue;
+    const index = faker.number.int({ min: 0, max: items.length });
+    if (items.length < maxLength) {
+      items.splice(index, 0, value);
+    } else {
+      // Replace an item that is not itself a required value
+      const replaceable = items
+        .map((_item, index) => index)
+        .filter((index) => !constraints.includes.includes(items[index]));
+      const target = replaceable[faker.number.int({ min: 0, max: Math.max(0, replaceable.length - 1) })] ?? 0;
+      items[target] = value;
+    }
+  }
+
+  return items;
+}
@@ -0,0 +1,53 @@
+import { VOID } from "./types.ts";
+import { isPlainObject } from "./walk.ts";
+
+/**
+ * Checks whether a value is a promise or another thenable
+ */
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return value !== null && (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+/**
+ * Checks whether a generated value still contains pending promises, e.g.
+ * from async `fake()` generators
+ *
+ * @param value - The generated value
+ */
+export function containsPromise(value: unknown): boolean {
+  if (isThenable(value)) return true;
+  if (Array.isArray(value)) return value.some(containsPromise);
+  if (value instanceof Map) return [...value].some(([key, item]) => containsPromise(key) || containsPromise(item));
+  if (value instanceof Set) return [...value].some(containsPromise);
+  if (isPlainObject(value)) return Object.values(value).some(containsPromise);
+  return false;
+}
+
+/**
+ * Awaits every promise of a generated value, at any depth
+ *
+ * @param value - The generated value
+ * @returns The value with its promises replaced by their result
+ */
+export async function resolvePromises(value: unknown): Promise<unknown> {
+  if (isThenable(value)) {
+    const resolved = await value;
+    return resolved === VOID ? undefined : resolvePromises(resolved);
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(resolvePromises));
+  }
+  if (value instanceof Map) {
+    const entries = await Promise.all([...value].map(async ([key, item]) => [await resolvePromises(key), await resolvePromises(item)] as const));
+    return new Map(entries);
+  }
+  if (value instanceof Set) {
+    return new Set(await Promise.all([...value].map(resolvePromises)));
+  }
+  if (isPlainObject(value)) {
+    const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await resolvePromises(item)] as const));
+    return Object.assign(Object.create(Object.getPrototypeOf(value)), Object.fromEntries(entries));
+  }
+  return value;
+}
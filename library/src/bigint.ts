@@ -0,0 +1,216 @@
+import type { Faker } from "@faker-js/faker";
+import { getRequirements } from "./actions.ts";
+import type { BoundaryEdge } from "./types.ts";
+
+/**
+ * Range used when a bigint schema has no bound at all
+ */
+const DEFAULT_BIGINT_MIN = -1000n;
+const DEFAULT_BIGINT_MAX = 1000n;
+
+/**
+ * Number of random draws before scanning for a value that is not excluded
+ */
+const SAMPLE_ATTEMPTS = 20;
+
+/**
+ * Constraints of a bigint schema, collected from its pipe
+ */
+export interface BigIntConstraints {
+  /** Inclusive lower bound, `null` when unbounded */
+  min: bigint | null;
+  /** Inclusive upper bound, `null` when unbounded */
+  max: bigint | null;
+  /** Every divisor the value must be a multiple of */
+  multipleOf: bigint[];
+  /** Values that are not allowed */
+  excluded: bigint[];
+  /** Only allowed values, `null` when any value is allowed */
+  allowed: bigint[] | null;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return a >= 0n ? (a + b - 1n) / b : a / b;
+}
+
+function floorDiv(a: bigint, b: bigint): bigint {
+  return a >= 0n ? a / b : -((-a + b - 1n) / b);
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+/**
+ * Converts a requirement to a bigint bound, rounding inward for fractional numbers
+ */
+function toBound(requirement: bigint | number, rounding: "ceil" | "floor"): bigint {
+  if (typeof requirement === 'bigint') return requirement;
+  return BigInt(rounding === 'ceil' ? Math.ceil(requirement) : Math.floor(requirement));
+}
+
+/**
+ * Collects the constraints of a bigint schema.
+ * Exclusive bounds are converted to inclusive ones and, when an action
+ * appears several times, the strictest one wins.
+ *
+ * @param schema - The bigint schema
+ * @returns The collected constraints
+ */
+export function getBigIntConstraints(schema: any): BigIntConstraints {
+  const lowerBounds = [
+    ...[...getRequirements(schema, 'min_value'), ...getRequirements(schema, 'min')].map((requirement) => toBound(requirement, 'ceil')),
+    ...getRequirements(schema, 'gt_value').map((requirement) => toBound(requirement, 'floor') + 1n),
+  ];
+  const upperBounds = [
+    ...[...getRequirements(schema, 'max_value'), ...getRequirements(schema, 'max')].map((requirement) => toBound(requirement, 'floor')),
+    ...getRequirements(schema, 'lt_value').map((requirement) => toBound(requirement, 'ceil') - 1n),
+  ];
+
+  let allowed: bigint[] | null = null;
+  const allowedLists = [
+    ...getRequirements(schema, 'value').map((requirement) => [requirement]),
+    ...getRequirements(schema, 'values'),
+  ];
+  for (const list of allowedLists) {
+    allowed = allowed ? allowed.filter((value) => list.includes(value)) : [...list];
+  }
+
+  return {
+    min: lowerBounds.reduce<bigint | null>((max, bound) => max === null || bound > max ? bound : max, null),
+    max: upperBounds.reduce<bigint | null>((min, bound) => min === null || bound < min ? bound : min, null),
+    multipleOf: getRequirements(schema, 'multiple_of').map((requirement) => abs(BigInt(requirement))).filter((divisor) => divisor !== 0n),
+    excluded: [...getRequirements(schema, 'not_value'), ...getRequirements(schema, 'not_values').flat()],
+    allowed,
+  };
+}
+
+/**
+ * Checks a value against bigint constraints
+ *
+ * @param value - The value to check
+ * @param constraints - The constraints to satisfy
+ */
+export function satisfiesBigIntConstraints(value: bigint, constraints: BigIntConstraints): boolean {
+  if (constraints.min !== null && value < constraints.min) return false;
+  if (constraints.max !== null && value > constraints.max) return false;
+  if (constraints.multipleOf.some((divisor) => value % divisor !== 0n)) return false;
+  if (constraints.excluded.includes(value)) return false;
+  if (constraints.allowed && !constraints.allowed.includes(value)) return false;
+  return true;
+}
+
+/**
+ * Draws a bigint uniformly in `[0, range)`, by rejection sampling over
+ * 32-bit chunks drawn from Faker, so results follow the generator seed
+ *
+ * @param faker - The Faker instance to draw from
+ * @param range - The exclusive upper bound, greater than zero
+ * @returns The drawn bigint
+ */
+export function randomBigInt(faker: Faker, range: bigint): bigint {
+  const bits = (range - 1n).toString(2).length;
+  const chunks = Math.ceil(bits / 32);
+  const mask = (1n << BigInt(bits)) - 1n;
+  while (true) {
+    let value = 0n;
+    for (let i = 0; i < chunks; i++) {
+      value = (value << 32n) | BigInt(faker.number.int({ min: 0, max: 0xFFFFFFFF }));
+    }
+    value &= mask;
+    if (value < range) {
+      return value;
+    }
+  }
+}
+
+/**
+ * Resolves the effective generation range, filling missing bounds with a
+ * window of the default size next to the known bound
+ */
+function resolveRange(constraints: BigIntConstraints): [bigint, bigint] {
+  const span = DEFAULT_BIGINT_MAX - DEFAULT_BIGINT_MIN;
+  const { min: lower, max: upper } = constraints;
+  const min = lower ?? (upper !== null ? (upper < 0n ? upper : 0n) - span / 2n : DEFAULT_BIGINT_MIN);
+  const max = upper ?? (lower !== null ? (lower > 0n ? lower : 0n) + span / 2n : DEFAULT_BIGINT_MAX);
+  return [min, max];
+}
+
+/**
+ * Generates a bigint satisfying the given constraints.
+ *
+ * Values are drawn uniformly among the multiples of the required step within
+ * the bounds, with full precision whatever their magnitude.
+ *
+ * @param constraints - The constraints to satisfy
+ * @param faker - The Faker instance to draw from
+ * @returns The generated bigint
+ */
+export function generateBigInt(constraints: BigIntConstraints, faker: Faker): bigint {
+  if (constraints.allowed) {
+    const candidates = constraints.allowed.filter((value) => satisfiesBigIntConstraints(value, constraints));
+    const pool = candidates.length > 0 ? candidates : constraints.allowed;
+    return pool[faker.number.int({ min: 0, max: Math.max(0, pool.length - 1) })] ?? 0n;
+  }
+
+  const [min, max] = resolveRange(constraints);
+  const step = constraints.multipleOf.reduce((step, divisor) => step / gcd(step, divisor) * divisor, 1n);
+  const kMin = ceilDiv(min, step);
+  const kMax = floorDiv(max, step);
+  if (kMin > kMax) {
+    return min;
+  }
+
+  const count = kMax - kMin + 1n;
+  let k = kMin;
+  for (let i = 0; i < SAMPLE_ATTEMPTS; i++) {
+    k = kMin + randomBigInt(faker, count);
+    if (!constraints.excluded.includes(k * step)) {
+      return k * step;
+    }
+  }
+
+  // Few values are left: walk the grid from the last draw
+  for (let offset = 1n; offset < count && offset <= BigInt(constraints.excluded.length); offset++) {
+    const candidate = kMin + (k - kMin + offset) % count;
+    if (!constraints.excluded.includes(candidate * step)) {
+      return candidate * step;
+    }
+  }
+  return k * step;
+}
+
+/**
+ * Returns the lowest or highest bigint satisfying the given constraints,
+ * within the default window on unbounded sides
+ *
+ * @param constraints - The constraints to satisfy
+ * @param edge - The edge to reach
+ * @returns The boundary value, or `null` when none is found next to the edge
+ */
+export function boundaryBigInt(constraints: BigIntConstraints, edge: BoundaryEdge): bigint | null {
+  if (constraints.allowed) {
+    const valid = constraints.allowed
+      .filter((value) => satisfiesBigIntConstraints(value, constraints))
+      .sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+    return (edge === 'min' ? valid[0] : valid[valid.length - 1]) ?? null;
+  }
+
+  const [min, max] = resolveRange(constraints);
+  const step = constraints.multipleOf.reduce((step, divisor) => step / gcd(step, divisor) * divisor, 1n);
+  const kMin = ceilDiv(min, step);
+  const kMax = floorDiv(max, step);
+  const direction = edge === 'min' ? 1n : -1n;
+  let k = edge === 'min' ? kMin : kMax;
+  for (let i = 0; i <= constraints.excluded.length && k >= kMin && k <= kMax; i++, k += direction) {
+    if (!constraints.excluded.includes(k * step)) return k * step;
+  }
+  return null;
+}
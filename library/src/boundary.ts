@@ -0,0 +1,50 @@
+import type { Faker } from "@faker-js/faker";
+import type { BoundaryEdge, GenerationContext, ResolvedMockGeneratorOptions } from "./types.ts";
+
+/**
+ * Returns the edge a draw must take: the edge of the context when generating
+ * boundaries, a random edge in boundary mode, or `null` for a random draw
+ *
+ * @param faker - The Faker instance to draw from
+ * @param context - The current generation context
+ * @param options - The resolved generator options
+ */
+export function getEdge(faker: Faker, context: GenerationContext, options: ResolvedMockGeneratorOptions): BoundaryEdge | null {
+  if (context.edge) return context.edge;
+  if (options.mode === 'boundary') return faker.datatype.boolean() ? 'max' : 'min';
+  return null;
+}
+
+/**
+ * Draws an integer within a range, or one of its bounds when generating
+ * boundary values
+ *
+ * @param faker - The Faker instance to draw from
+ * @param range - The inclusive range
+ * @param context - The current generation context
+ * @param options - The resolved generator options
+ */
+export function drawInt(
+  faker: Faker,
+  range: { min: number; max: number },
+  context: GenerationContext,
+  options: ResolvedMockGeneratorOptions,
+): number {
+  const edge = getEdge(faker, context, options);
+  if (edge) return range[edge];
+  return faker.number.int(range);
+}
+
+/**
+ * Returns the next floating point number after a value, in the given direction
+ *
+ * @param value - A finite number
+ * @param direction - `1` for the next greater number, `-1` for the next lower one
+ */
+export function nextAfter(value: number, direction: 1 | -1): number {
+  if (value === 0) return direction * Number.MIN_VALUE;
+  const buffer = new Float64Array([value]);
+  const bits = new BigInt64Array(buffer.buffer);
+  bits[0] = bits[0]! + ((value > 0) === (direction > 0) ? 1n : -1n);
+  return buffer[0]!;
+}
@@ -0,0 +1,172 @@
+import * as v from "valibot";
+import { en, Faker } from "@faker-js/faker";
+import type { Dataset, DatasetCollection, DatasetRelation, MockGeneratorOptions } from "./types.ts";
+import { createMockGenerator } from "./generator.ts";
+import { createSession, getSchemaMarkers } from "./reference.ts";
+import { splitPipe } from "./walk.ts";
+import { deriveSeed } from "./seed.ts";
+
+/**
+ * Orders collections so that every collection comes after the collections
+ * it depends on, keeping the declaration order otherwise. A collection
+ * depends on the collections its relations point at, and on the collections
+ * identifying the entities its `reference()` fields point at.
+ *
+ * @param collections - The collections of the dataset
+ * @returns The collection names, in generation order
+ */
+function sortCollections(collections: Record<string, DatasetCollection>): string[] {
+  const markers = Object.fromEntries(
+    Object.entries(collections).map(([name, collection]) => [name, getSchemaMarkers(collection.schema)]),
+  );
+  const dependencies = (name: string): string[] => {
+    const related = Object.entries(collections[name]!.relations ?? {}).map(([field, relation]) => {
+      if (!Object.hasOwn(collections, relation.to)) {
+        console.error(`Relation to an unknown collection:`, relation);
+        throw new Error(`Unknown collection "${relation.to}" for relation ${name}.${field}`);
+      }
+      return relation.to;
+    });
+    const referenced = Object.keys(collections).filter((other) =>
+      [...markers[name]!.references].some((reference) => markers[other]!.identifiers.has(reference))
+    );
+    // Self relations draw from the entities of the collection generated before
+    return [...related, ...referenced].filter((other) => other !== name);
+  };
+
+  const sorted: string[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (name: string, from: string[]) => {
+    if (sorted.includes(name)) return;
+    if (visiting.has(name)) {
+      console.error(`Circular relations between collections:`, [...from, name]);
+      throw new Error(`Circular relations between collections: ${[...from, name].join(' -> ')}`);
+    }
+    visiting.add(name);
+    dependencies(name).forEach((dependency) => visit(dependency, [...from, name]));
+    visiting.delete(name);
+    sorted.push(name);
+  };
+
+  Object.keys(collections).forEach((name) => visit(name, []));
+  return sorted;
+}
+
+/**
+ * Returns the schema of the field at a dot path of an object schema
+ */
+function getFieldSchema(schema: any, path: string): any {
+  return path.split('.').reduce((field, key) => {
+    let { base } = splitPipe(field ?? {});
+    while (base.wrapped) base = splitPipe(base.wrapped).base;
+    return base.entries?.[key];
+  }, schema);
+}
+
+/**
+ * Builds the override of a relation field, picking the keys of generated
+ * entities. Without any entity, e.g. for the first entity of a self
+ * relation, optional and nullable fields are left empty.
+ *
+ * @param relation - The relation of the field
+ * @param entities - The entities of the referenced collection, growing for self relations
+ * @param field - The schema of the field
+ * @param path - The path of the field, for error messages
+ */
+function relationOverride(relation: DatasetRelation, entities: unknown[], field: any, path: string) {
+  const keys: unknown[] = [];
+  const many = relation.many;
+
+  return (faker: Faker) => {
+    for (let index = keys.length; index < entities.length; index++) {
+      keys.push((entities[index] as Record<string, unknown>)[relation.key ?? 'id']);
+    }
+    if (many) {
+      const max = Math.min(many.max ?? keys.length, keys.length);
+      return faker.helpers.arrayElements(keys, faker.number.int({ min: Math.min(many.min ?? 0, max), max }));
+    }
+    if (keys.length > 0) {
+      return faker.helpers.arrayElement(keys);
+    }
+    if (field && v.is(field, undefined)) return undefined;
+    if (field && v.is(field, null)) return null;
+    console.error(`No entity to reference for relation:`, path, relation);
+    throw new Error(`No ${relation.to} to reference at path "${path}"`);
+  };
+}
+
+/**
+ * Nests an override at a dot path, e.g. `author.id`
+ */
+function nestOverride(overrides: Record<string, unknown>, path: string, override: unknown): void {
+  const [key, ...rest] = path.split('.');
+  if (rest.length === 0) {
+    overrides[key!] = override;
+    return;
+  }
+  const nested = (overrides[key!] ??= {}) as Record<string, unknown>;
+  nestOverride(nested, rest.join('.'), override);
+}
+
+/**
+ * Builds a dataset of several collections of entities, e.g. to seed a
+ * database.
+ *
+ * Collections are generated after the collections their relations and
+ * `reference()` fields point at, each one with a seed derived from the
+ * dataset seed and its name. Relation fields store the keys of generated
+ * entities, and every generator shares a session for `reference()` fields.
+ * Self relations, e.g. `parentId: { to: "nodes" }`, point at the entities of
+ * the collection generated before, leaving the field of the first one empty.
+ *
+ * @example
+ * ```ts
+ * const dataset = buildDataset({
+ *   users: { schema: UserSchema, count: 10 },
+ *   tags: { schema: TagSchema, count: 5 },
+ *   posts: {
+ *     schema: PostSchema,
+ *     count: 50,
+ *     relations: {
+ *       authorId: { to: "users" },
+ *       tagIds: { to: "tags", many: { max: 3 } },
+ *     },
+ *   },
+ * }, { faker: { locale: [locales.en], seed: 42 } });
+ * ```
+ *
+ * @param collections - The collections, per name
+ * @param options - The options of every generator, with the dataset seed
+ * @returns The entities of each collection
+ */
+export function buildDataset<TCollections extends Record<string, DatasetCollection>>(
+  collections: TCollections,
+  options: MockGeneratorOptions = {},
+): Dataset<TCollections> {
+  const locale = options.faker?.locale ?? [en];
+  const seed = options.faker?.seed ?? new Faker({ locale }).number.int();
+  const session = createSession();
+  const dataset: Record<string, unknown[]> = Object.fromEntries(Object.keys(collections).map((name) => [name, []]));
+
+  for (const name of sortCollections(collections)) {
+    const { schema, count, relations = {} } = collections[name]!;
+    const overrides: Record<string, unknown> = {};
+    for (const [path, relation] of Object.entries(relations)) {
+      const field = getFieldSchema(schema, path);
+      nestOverride(overrides, path, relationOverride(relation, dataset[relation.to]!, field, `${name}.${path}`));
+    }
+
+    const generator = createMockGenerator(schema as v.GenericSchema, {
+      ...options,
+      faker: { locale, seed: deriveSeed(seed, name) },
+      session,
+    });
+    // One at a time, so that self relations see the entities generated before
+    for (let index = 0; index < count; index++) {
+      dataset[name]!.push(generator.generate(overrides));
+    }
+  }
+
+  return dataset as Dataset<TCollections>;
+}
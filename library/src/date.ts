@@ -0,0 +1,185 @@
+import type { Faker } from "@faker-js/faker";
+import { getRequirements } from "./actions.ts";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const YEAR = 365 * DAY;
+
+/**
+ * Inclusive range of dates
+ */
+export interface DateRange {
+  min: Date;
+  max: Date;
+}
+
+/**
+ * Resolves the default date window of a generator: the year before `max`,
+ * which itself defaults to now
+ *
+ * @param range - The configured window, if any
+ * @returns The resolved window
+ */
+export function resolveDefaultDateRange(range: Partial<DateRange> = {}): DateRange {
+  const max = range.max ?? (range.min && range.min.getTime() > Date.now() ? new Date(range.min.getTime() + YEAR) : new Date());
+  const min = range.min ?? new Date(max.getTime() - YEAR);
+  return { min, max };
+}
+
+/**
+ * Collects the date range allowed by the value actions of a schema.
+ * Missing bounds are taken from the default window, or from a window of the
+ * same size next to the known bound when the default one does not overlap it.
+ *
+ * @param schema - The schema holding the value actions
+ * @param defaults - The default window
+ * @param parse - Converts a requirement to a date
+ * @param resolution - Smallest representable step, used to exclude exclusive bounds
+ * @returns The allowed range
+ */
+export function getDateRange(
+  schema: any,
+  defaults: DateRange,
+  parse: (requirement: any) => Date = (requirement) => new Date(requirement),
+  resolution = 1,
+): DateRange {
+  const lowerBounds = [
+    ...getRequirements(schema, 'min_value').map((requirement) => parse(requirement).getTime()),
+    ...getRequirements(schema, 'gt_value').map((requirement) => parse(requirement).getTime() + resolution),
+  ];
+  const upperBounds = [
+    ...getRequirements(schema, 'max_value').map((requirement) => parse(requirement).getTime()),
+    ...getRequirements(schema, 'lt_value').map((requirement) => parse(requirement).getTime() - resolution),
+  ];
+
+  const span = defaults.max.getTime() - defaults.min.getTime();
+  const hasMin = lowerBounds.length > 0;
+  const hasMax = upperBounds.length > 0;
+  const min = hasMin ? Math.max(...lowerBounds) : null;
+  const max = hasMax ? Math.min(...upperBounds) : null;
+
+  if (min !== null && max !== null) {
+    return { min: new Date(min), max: new Date(max) };
+  }
+  if (min !== null) {
+    const end = min < defaults.max.getTime() ? defaults.max.getTime() : min + span;
+    return { min: new Date(min), max: new Date(end) };
+  }
+  if (max !== null) {
+    const start = max > defaults.min.getTime() ? defaults.min.getTime() : max - span;
+    return { min: new Date(start), max: new Date(max) };
+  }
+  return defaults;
+}
+
+/**
+ * Generates a date uniformly within a range
+ *
+ * @param range - The allowed range
+ * @param faker - The Faker instance to draw from
+ * @returns The generated date, or the lower bound when the range is empty
+ */
+export function generateDate(range: DateRange, faker: Faker): Date {
+  if (range.min.getTime() >= range.max.getTime()) {
+    return new Date(range.min);
+  }
+  return faker.date.between({ from: range.min, to: range.max });
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Formats a date as an ISO week (`YYYY-Www`), using its week-numbering year
+ */
+function formatIsoWeek(date: Date): string {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / DAY + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+}
+
+/**
+ * Parses an ISO week (`YYYY-Www`) to the date of its Monday
+ */
+function parseIsoWeek(value: string): Date {
+  const [year, week] = value.split("-W").map(Number) as [number, number];
+  const january4 = new Date(Date.UTC(year, 0, 4));
+  const firstMonday = january4.getTime() - ((january4.getUTCDay() || 7) - 1) * DAY;
+  return new Date(firstMonday + (week - 1) * 7 * DAY);
+}
+
+/**
+ * Definition of an ISO string format backed by dates
+ */
+interface IsoFormat {
+  /** Smallest step between two distinct formatted values, in milliseconds */
+  resolution: number;
+  /** Converts a formatted value to a date, in UTC */
+  parse: (value: string) => Date;
+  /** Formats a date, in UTC */
+  format: (date: Date) => string;
+  /** Fixed window replacing the default one, for time-only formats */
+  window?: DateRange;
+}
+
+const TIME_WINDOW: DateRange = {
+  min: new Date("1970-01-01T00:00:00.000Z"),
+  max: new Date("1970-01-01T23:59:59.999Z"),
+};
+
+/**
+ * ISO string formats of Valibot, keyed by action type
+ */
+export const isoFormats: Record<string, IsoFormat> = {
+  'iso_date': {
+    resolution: DAY,
+    parse: (value) => new Date(`${value}T00:00:00.000Z`),
+    format: (date) => date.toISOString().slice(0, 10),
+  },
+  'iso_date_time': {
+    resolution: MINUTE,
+    parse: (value) => new Date(`${value.replace(" ", "T")}:00.000Z`),
+    format: (date) => date.toISOString().slice(0, 16),
+  },
+  'iso_time': {
+    resolution: MINUTE,
+    parse: (value) => new Date(`1970-01-01T${value}:00.000Z`),
+    format: (date) => date.toISOString().slice(11, 16),
+    window: TIME_WINDOW,
+  },
+  'iso_time_second': {
+    resolution: 1000,
+    parse: (value) => new Date(`1970-01-01T${value}.000Z`),
+    format: (date) => date.toISOString().slice(11, 19),
+    window: TIME_WINDOW,
+  },
+  'iso_timestamp': {
+    resolution: 1,
+    parse: (value) => new Date(value),
+    format: (date) => date.toISOString(),
+  },
+  'iso_week': {
+    resolution: 7 * DAY,
+    parse: parseIsoWeek,
+    format: formatIsoWeek,
+  },
+};
+
+/**
+ * Collects the date range allowed by the value actions of an ISO string schema
+ *
+ * @param schema - The string schema
+ * @param format - The ISO format action type
+ * @param defaults - The default window
+ * @returns The allowed range
+ */
+export function getIsoDateRange(schema: any, format: string, defaults: DateRange): DateRange {
+  const isoFormat = isoFormats[format];
+  if (!isoFormat) {
+    return defaults;
+  }
+  return getDateRange(schema, isoFormat.window ?? defaults, isoFormat.parse, isoFormat.resolution);
+}
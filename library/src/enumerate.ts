@@ -0,0 +1,222 @@
+import * as v from "valibot";
+import { getArrayConstraints, toKey } from "./array.ts";
+import { hasAction } from "./actions.ts";
+import { splitPipe } from "./walk.ts";
+import { getNumberConstraints } from "./number.ts";
+import { getBigIntConstraints } from "./bigint.ts";
+import { getDateRange } from "./date.ts";
+import { getVariantBranches } from "./variant.ts";
+
+/**
+ * Lazily enumerates the values of a schema
+ */
+type Enumeration = () => Generator<unknown>;
+
+const CLOSED_OBJECT_TYPES = ['object', 'strict_object'];
+const CLOSED_TUPLE_TYPES = ['tuple', 'strict_tuple'];
+
+/**
+ * Entry types whose `undefined` value is enumerated as a missing key
+ */
+const ABSENT_TYPES = ['optional', 'exact_optional'];
+
+/**
+ * Enumerates the combinations of the values of several enumerations, the
+ * last one varying first
+ */
+function* product(enumerations: Enumeration[], prefix: unknown[] = []): Generator<unknown[]> {
+  if (prefix.length === enumerations.length) {
+    yield prefix;
+    return;
+  }
+  for (const value of enumerations[prefix.length]!()) {
+    yield* product(enumerations, [...prefix, value]);
+  }
+}
+
+/**
+ * Enumerates the values of several enumerations in turn, skipping duplicates
+ */
+function* concat(enumerations: Enumeration[]): Generator<unknown> {
+  const seen = new Set<string>();
+  for (const enumeration of enumerations) {
+    for (const value of enumeration()) {
+      const key = toKey(value);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      yield value;
+    }
+  }
+}
+
+/**
+ * Builds a lazy enumeration of every value of a schema made of literals,
+ * booleans, picklists, enums, optionals, unions, closed objects and tuples.
+ * Values are inputs of the schema, and piped schemas only keep the values
+ * passing their pipe.
+ *
+ * @param schema - The schema to enumerate
+ * @returns The enumeration, or `null` when the schema has no finite set of values
+ */
+export function enumerateSchema(schema: any): Enumeration | null {
+  const { base } = splitPipe(schema);
+  const enumeration = enumerateBase(base);
+  if (!enumeration || base === schema) return enumeration;
+  return function* () {
+    for (const value of enumeration()) {
+      if (v.is(schema, value)) yield value;
+    }
+  };
+}
+
+/**
+ * Builds the enumeration of a schema without its pipe
+ */
+function enumerateBase(schema: any): Enumeration | null {
+  const values = (list: unknown[]): Enumeration => function* () { yield* list; };
+
+  switch (schema.type) {
+    case 'literal':
+      return values([schema.literal]);
+    case 'boolean':
+      return values([false, true]);
+    case 'picklist':
+    case 'enum':
+      return values(schema.options);
+    case 'null':
+      return values([null]);
+    case 'undefined':
+    case 'void':
+      return values([undefined]);
+    case 'optional':
+    case 'exact_optional':
+    case 'undefinedable':
+    case 'nullable':
+    case 'nullish': {
+      const wrapped = enumerateSchema(schema.wrapped);
+      if (!wrapped) return null;
+      const empty = schema.type === 'nullable' ? [null] : schema.type === 'nullish' ? [null, undefined] : [undefined];
+      return () => concat([values(empty), wrapped]);
+    }
+    case 'union':
+    case 'variant': {
+      const options = (schema.type === 'variant' ? getVariantBranches(schema) : schema.options).map(enumerateSchema);
+      if (options.includes(null)) return null;
+      return () => concat(options);
+    }
+    case 'intersect': {
+      const finite = schema.options.map(enumerateSchema).find((option: Enumeration | null) => option !== null);
+      if (!finite) return null;
+      return function* () {
+        for (const value of finite()) {
+          if (v.is(schema, value)) yield value;
+        }
+      };
+    }
+    default:
+      break;
+  }
+
+  if (CLOSED_OBJECT_TYPES.includes(schema.type)) {
+    const keys = Object.keys(schema.entries);
+    const entries = keys.map((key) => enumerateSchema(schema.entries[key]));
+    if (entries.includes(null)) return null;
+    return function* () {
+      for (const combination of product(entries as Enumeration[])) {
+        const result: Record<string, unknown> = {};
+        keys.forEach((key, index) => {
+          const absent = combination[index] === undefined && ABSENT_TYPES.includes(schema.entries[key].type);
+          if (!absent) result[key] = combination[index];
+        });
+        yield result;
+      }
+    };
+  }
+
+  if (CLOSED_TUPLE_TYPES.includes(schema.type)) {
+    const items = schema.items.map(enumerateSchema);
+    if (items.includes(null)) return null;
+    return () => product(items);
+  }
+
+  return null;
+}
+
+/**
+ * Estimates the number of distinct values of a schema. The estimate ignores
+ * the pipe actions that cannot be counted (`check`, `regex`...), so it is an
+ * upper bound of the actual number of values.
+ *
+ * @param schema - The schema to measure
+ * @returns The estimated number of values, `Infinity` when unbounded
+ */
+export function estimateCardinality(schema: any): number {
+  const { base, actions } = splitPipe(schema);
+  // Constraints of nested pipes, read like a single pipe
+  const piped = { ...base, pipe: [base, ...actions] };
+
+  switch (base.type) {
+    case 'literal':
+    case 'null':
+    case 'undefined':
+    case 'void':
+      return 1;
+    case 'boolean':
+      return 2;
+    case 'picklist':
+    case 'enum':
+      return base.options.length;
+    case 'optional':
+    case 'exact_optional':
+    case 'undefinedable':
+    case 'nullable':
+      return 1 + estimateCardinality(base.wrapped);
+    case 'nullish':
+      return 2 + estimateCardinality(base.wrapped);
+    case 'union':
+    case 'variant':
+      return (base.type === 'variant' ? getVariantBranches(base) : base.options)
+        .reduce((sum: number, option: any) => sum + estimateCardinality(option), 0);
+    case 'intersect':
+      return Math.min(...base.options.map(estimateCardinality));
+    case 'object':
+    case 'strict_object':
+      return Object.values(base.entries).reduce((total: number, entry) => total * estimateCardinality(entry), 1);
+    case 'tuple':
+    case 'strict_tuple':
+      return base.items.reduce((total: number, item: any) => total * estimateCardinality(item), 1);
+    case 'number': {
+      const constraints = getNumberConstraints(piped);
+      const integer = constraints.integer || constraints.safeInteger || constraints.multipleOf.length > 0;
+      if (constraints.allowed) return constraints.allowed.length;
+      if (!integer || !Number.isFinite(constraints.min) || !Number.isFinite(constraints.max)) return Infinity;
+      const step = constraints.multipleOf.length > 0 ? Math.max(...constraints.multipleOf) : 1;
+      return Math.max(0, Math.floor(constraints.max / step) - Math.ceil(constraints.min / step) + 1);
+    }
+    case 'bigint': {
+      const constraints = getBigIntConstraints(piped);
+      if (constraints.allowed) return constraints.allowed.length;
+      if (constraints.min === null || constraints.max === null) return Infinity;
+      return Math.max(0, Number(constraints.max - constraints.min) + 1);
+    }
+    case 'date': {
+      const bounded = (hasAction(piped, 'min_value') || hasAction(piped, 'gt_value')) &&
+        (hasAction(piped, 'max_value') || hasAction(piped, 'lt_value'));
+      if (!bounded) return Infinity;
+      const range = getDateRange(piped, { min: new Date(0), max: new Date(0) });
+      return Math.max(0, range.max.getTime() - range.min.getTime() + 1);
+    }
+    case 'array': {
+      const { minLength, maxLength } = getArrayConstraints(piped);
+      const items = estimateCardinality(base.item);
+      if (maxLength === null) return items === 0 && minLength === 0 ? 1 : Infinity;
+      let total = 0;
+      for (let length = minLength; length <= maxLength; length++) {
+        total += items ** length;
+      }
+      return total;
+    }
+    default:
+      return Infinity;
+  }
+}
@@ -0,0 +1,42 @@
+import type * as v from "valibot";
+import type { Factory, FactoryOptions, Overrides } from "./types.ts";
+import { createMockGenerator } from "./generator.ts";
+import { combineOverrides } from "./overrides.ts";
+
+/**
+ * Defines a factory building values of a schema from named traits, partial
+ * overrides that can be combined, e.g. `factory.build('admin', 'verified')`.
+ *
+ * @param schema - The schema to build values for
+ * @param options - The traits, and the options of the underlying generator
+ * @returns The factory
+ */
+export function defineFactory<TSchema extends v.GenericSchema, TTrait extends string = never>(
+  schema: TSchema,
+  options: FactoryOptions<TSchema, TTrait> = {},
+): Factory<TSchema, TTrait> {
+  const { traits = {} as Record<TTrait, Overrides<v.InferOutput<TSchema>>>, ...generatorOptions } = options;
+  const generator = createMockGenerator(schema, generatorOptions);
+
+  function resolveTraits(names: Array<TTrait | Overrides<v.InferOutput<TSchema>>>): Overrides<v.InferOutput<TSchema>> | undefined {
+    if (names.length === 0) {
+      return undefined;
+    }
+    return combineOverrides(names.map((name) => {
+      if (typeof name !== 'string') {
+        return name;
+      }
+      if (!Object.hasOwn(traits, name)) {
+        console.error(`Unknown trait: ${name}, defined traits:`, Object.keys(traits));
+        throw new Error(`Unknown trait: ${name}`);
+      }
+      return traits[name as TTrait];
+    })) as Overrides<v.InferOutput<TSchema>>;
+  }
+
+  return {
+    build: (...names) => generator.generate(resolveTraits(names)),
+    buildMany: (count, ...names) => generator.generateMany(count, resolveTraits(names)),
+    generator,
+  };
+}
@@ -2,21 +2,54 @@ import * as v from "valibot";
 import { Faker, en } from "@faker-js/faker";
 import RandExp from "randexp";
 
-import type { MockGeneratorOptions, MockGenerator, ResolvedMockGeneratorOptions } from "./types.ts";
+import type {
+  GenerationContext,
+  InvalidTarget,
+  InvalidValue,
+  MockGeneratorOptions,
+  MockGenerator,
+  Overrides,
+  ResolvedMockGeneratorOptions,
+  ResolvedSchemaHandler,
+  SchemaHandler,
+} from "./types.ts";
+import { VOID } from "./types.ts";
 import { getFakeGenerator } from "./fake.ts";
 import { regexToStringMinMax } from "./regex-parser.ts";
+import { boundaryNumber, generateNumber, getNumberConstraints } from "./number.ts";
+import { buildArray, drawDistinct, getArrayConstraints, toKey } from "./array.ts";
+import { getCountRange, getRequirements, hasAction } from "./actions.ts";
+import { entryPath, itemPath } from "./path.ts";
+import { shouldTerminate, terminatingChoices } from "./recursion.ts";
+import { mergeSchemas } from "./intersect.ts";
+import { containsPromise, resolvePromises } from "./async.ts";
+import { splitTransformation } from "./transform.ts";
+import { createInvalidValue } from "./invalid.ts";
+import { enumerateSchema, estimateCardinality } from "./enumerate.ts";
+import { drawOutcome, getPresenceProbabilities } from "./presence.ts";
+import { drawInt, getEdge } from "./boundary.ts";
+import { createSeededFaker, deriveSeed } from "./seed.ts";
+import { applyOverrides } from "./overrides.ts";
+import { createSequences } from "./sequence.ts";
+import { getReference, hasIdentifiers, lacksReferences, pickReference, recordIdentifiers } from "./reference.ts";
+import { getWeightedBranches, pickWeighted } from "./variant.ts";
+import { boundaryBigInt, generateBigInt, getBigIntConstraints } from "./bigint.ts";
+import { getStringFormat, stringFormats } from "./string-formats.ts";
+import { generateDate, getDateRange, getIsoDateRange, resolveDefaultDateRange } from "./date.ts";
 
-const VOID = Symbol("void");
-
-const schemaHandlers = {
+const schemaHandlers: Record<string, ResolvedSchemaHandler> = {
   'union': (schema: any, faker: Faker, context: any, options: any) => {
-    const choice = faker.number.int({ min: 0, max: schema.options.length - 1 });
-    const chosenSchema = schema.options[choice];
+    const choices = terminatingChoices(schema.options, context, options);
+    const choice = drawInt(faker, { min: 0, max: choices.length - 1 }, context, options);
+    const chosenSchema = choices[choice];
     return handleSchema(chosenSchema, faker, context, options);
   },
   
   'optional': (schema: any, faker: Faker, context: any, options: any) => {
-    const shouldBePresent = faker.datatype.boolean();
+    const { optionalProbability } = getPresenceProbabilities(schema, options);
+    const edge = getEdge(faker, context, options);
+    const shouldBePresent = !shouldTerminate(schema.wrapped, context, options) && !lacksReferences(schema.wrapped, context) &&
+      (edge ? edge === 'max' : faker.datatype.boolean({ probability: optionalProbability }));
     if (shouldBePresent) {
       return handleSchema(schema.wrapped, faker, context, options);
     }
@@ -24,76 +57,68 @@ const schemaHandlers = {
   },
   
   'object': (schema: any, faker: Faker, context: any, options: any) => {
-    const result: Record<string, any> = {};
-    for (const key in schema.entries) {
-      const fieldSchema = schema.entries[key];
-      const fieldContext = {
-        ...context,
-        path: context.path ? `${context.path}.${key}` : key
-      };
-      const value = handleSchema(fieldSchema, faker, fieldContext, options);
-      if (value !== VOID) {
-        result[key] = value;
-      }
-    }
-    return result;
+    return generateEntries(schema, faker, context, options);
+  },
+
+  'strict_object': (schema: any, faker: Faker, context: any, options: any) => {
+    return generateEntries(schema, faker, context, options);
+  },
+
+  'loose_object': (schema: any, faker: Faker, context: any, options: any) => {
+    const result = generateEntries(schema, faker, context, options);
+    return addExtraEntries(result, schema, faker, context, options, () => faker.lorem.word());
+  },
+
+  'object_with_rest': (schema: any, faker: Faker, context: any, options: any) => {
+    const result = generateEntries(schema, faker, context, options);
+    // A `never` rest schema forbids extra entries
+    if (schema.rest.type === 'never' || shouldTerminate(schema.rest, context, options)) return result;
+    return addExtraEntries(result, schema, faker, context, options, (key) => {
+      return handleSchema(schema.rest, faker, { ...context, path: entryPath(context.path, key) }, options);
+    });
   },
   
   'array': (schema: any, faker: Faker, context: any, options: any) => {
-    const minLength = schema.pipe?.find((pipe: any) => pipe.type === 'min_length')?.requirement ?? 0;
-    const maxLength = schema.pipe?.find((pipe: any) => pipe.type === 'max_length')?.requirement ?? options.defaultArrayMaxLength;
-    const length = faker.number.int({ min: minLength, max: maxLength });
-    const result = [];
-    for (let i = 0; i < length; i++) {
-      result.push(handleSchema(schema.item, faker, context, options));
-    }
-    return result;
+    const constraints = getArrayConstraints(schema);
+    const { minLength } = constraints;
+    const maxLength = constraints.maxLength ?? Math.max(minLength, options.defaultArrayMaxLength);
+    const length = shouldTerminate(schema.item, context, options)
+      ? minLength
+      : drawInt(faker, { min: minLength, max: Math.max(minLength, maxLength) }, context, options);
+    const generateItem = (index: number) => {
+      const itemContext = { ...context, path: itemPath(context.path, index) };
+      return handleSchema(schema.item, faker, itemContext, options);
+    };
+    return buildArray(constraints, length, generateItem, faker);
   },
   
   'literal': (schema: any) => schema.literal,
   
-  'enum': (schema: any, faker: Faker) => {
+  'enum': (schema: any, faker: Faker, context: any, options: any) => {
     const values = Object.values(schema.enum);
-    const choice = faker.number.int({ min: 0, max: values.length - 1 });
+    const choice = drawInt(faker, { min: 0, max: values.length - 1 }, context, options);
     return values[choice];
   },
   
-  'picklist': (schema: any, faker: Faker) => {
-    const choice = faker.number.int({ min: 0, max: schema.options.length - 1 });
+  'picklist': (schema: any, faker: Faker, context: any, options: any) => {
+    const choice = drawInt(faker, { min: 0, max: schema.options.length - 1 }, context, options);
     return schema.options[choice];
   },
   
   'string': (schema: any, faker: Faker, context: any, options: any) => {
-    const maxLength = schema.pipe?.find((pipe: any) => pipe.type === 'max_length')?.requirement ?? options.defaultStringMaxLength;
-    const minLength = schema.pipe?.find((pipe: any) => pipe.type === 'min_length')?.requirement ?? 0;
+    const exactLength = getRequirements(schema, 'length')[0];
+    const maxLengths = getRequirements(schema, 'max_length');
+    const explicitMaxLength = exactLength ?? (maxLengths.length > 0 ? Math.min(...maxLengths) : undefined);
+    const maxLength = explicitMaxLength ?? options.defaultStringMaxLength;
+    const nonEmpty = hasAction(schema, 'non_empty');
+    const minLength = exactLength ?? Math.max(nonEmpty ? 1 : 0, ...getRequirements(schema, 'min_length'));
     const regex = schema.pipe?.find((pipe: any) => pipe.type === 'regex')?.requirement ?? null;
-    const isoTimestamp = schema.pipe?.find((pipe: any) => pipe.type === 'iso_timestamp')?.requirement ?? false;
-
-    // Check for specific validation pipes
-    const emailPipe = schema.pipe?.find((pipe: any) => pipe.type === 'email');
-    const urlPipe = schema.pipe?.find((pipe: any) => pipe.type === 'url');
-    const uuidPipe = schema.pipe?.find((pipe: any) => pipe.type === 'uuid');
-    const ipPipe = schema.pipe?.find((pipe: any) => pipe.type === 'ip');
 
     // Generate specific formats
-    if (emailPipe) {
-      return faker.internet.email();
-    }
-    
-    if (urlPipe) {
-      return faker.internet.url();
-    }
-    
-    if (uuidPipe) {
-      return faker.string.uuid();
-    }
-    
-    if (ipPipe) {
-      return faker.internet.ip();
-    }
-
-    if (isoTimestamp) {
-      return faker.date.past().toISOString();
+    const format = getStringFormat(schema);
+    if (format) {
+      const dateRange = getIsoDateRange(schema, format, options.defaultDateRange);
+      return stringFormats[format]!(faker, minLength, explicitMaxLength ?? Infinity, dateRange);
     }
 
     if (regex) {
@@ -109,6 +134,7 @@ const schemaHandlers = {
         
         if (selectedCandidate) {
           const randexp = new RandExp(selectedCandidate.regex);
+          randexp.randInt = (min: number, max: number) => faker.number.int({ min, max });
           randexp.max = selectedCandidate.maxLength ?? maxLength;
           
           const generated = randexp.gen();
@@ -117,105 +143,170 @@ const schemaHandlers = {
       }
       
       const randexp = new RandExp(result.transformed);
+      randexp.randInt = (min: number, max: number) => faker.number.int({ min, max });
       randexp.max = result.actualMaxLength ?? maxLength;
       const generated = randexp.gen();
       return generated;
     }
 
-    const length = faker.number.int({ min: Math.max(0, minLength), max: Math.min(maxLength, options.defaultStringMaxLength) });
+    const length = drawInt(faker, {
+      min: Math.max(0, minLength),
+      max: Math.min(maxLength, Math.max(minLength, options.defaultStringMaxLength)),
+    }, context, options);
     return faker.string.alphanumeric(length);
   },
   
-  'number': (schema: any, faker: Faker) => {
-    const minValue = schema.pipe?.find((pipe: any) => pipe.type === 'min_value')?.requirement ?? -1000;
-    const maxValue = schema.pipe?.find((pipe: any) => pipe.type === 'max_value')?.requirement ?? 1000;
-    const min = schema.pipe?.find((pipe: any) => pipe.type === 'min')?.requirement ?? minValue;
-    const max = schema.pipe?.find((pipe: any) => pipe.type === 'max')?.requirement ?? maxValue;
-    const integer = schema.pipe?.find((pipe: any) => pipe.type === 'integer');
-    
-    if (integer) {
-      return faker.number.int({ min: Math.ceil(min), max: Math.floor(max) });
-    }
-    
-    return faker.number.float({ min, max });
+  'number': (schema: any, faker: Faker, context: any, options: any) => {
+    const constraints = getNumberConstraints(schema);
+    const edge = getEdge(faker, context, options);
+    return (edge && boundaryNumber(constraints, edge)) ?? generateNumber(constraints, faker);
   },
   
-  'bigint': (schema: any, faker: Faker) => {
-    const min = schema.pipe?.find((pipe: any) => pipe.type === 'min')?.requirement ?? -1000n;
-    const max = schema.pipe?.find((pipe: any) => pipe.type === 'max')?.requirement ?? 1000n;
-    
-    const numMin = typeof min === 'bigint' ? Number(min) : -1000;
-    const numMax = typeof max === 'bigint' ? Number(max) : 1000;
-    
-    return BigInt(faker.number.int({ min: numMin, max: numMax }));
+  'bigint': (schema: any, faker: Faker, context: any, options: any) => {
+    const constraints = getBigIntConstraints(schema);
+    const edge = getEdge(faker, context, options);
+    return (edge && boundaryBigInt(constraints, edge)) ?? generateBigInt(constraints, faker);
   },
   
-  'boolean': (schema: any, faker: Faker) => faker.datatype.boolean(),
+  'boolean': (schema: any, faker: Faker, context: any, options: any) => {
+    const edge = getEdge(faker, context, options);
+    return edge ? edge === 'max' : faker.datatype.boolean();
+  },
   
-  'date': (schema: any, faker: Faker) => faker.date.past(),
+  'date': (schema: any, faker: Faker, context: any, options: any) => {
+    const range = getDateRange(schema, options.defaultDateRange);
+    const edge = getEdge(faker, context, options);
+    return edge ? new Date(range[edge]) : generateDate(range, faker);
+  },
   
   'nullable': (schema: any, faker: Faker, context: any, options: any) => {
-    const shouldBeNull = faker.datatype.boolean({ probability: 0.2 });
+    const { nullProbability } = getPresenceProbabilities(schema, options);
+    const edge = getEdge(faker, context, options);
+    const shouldBeNull = shouldTerminate(schema.wrapped, context, options) || lacksReferences(schema.wrapped, context) ||
+      (edge ? edge === 'min' : faker.datatype.boolean({ probability: nullProbability }));
     if (shouldBeNull) {
       return null;
     }
     return handleSchema(schema.wrapped, faker, context, options);
   },
+
+  'undefinedable': (schema: any, faker: Faker, context: any, options: any) => {
+    const { undefinedProbability } = getPresenceProbabilities(schema, options);
+    const edge = getEdge(faker, context, options);
+    const shouldBeUndefined = shouldTerminate(schema.wrapped, context, options) || lacksReferences(schema.wrapped, context) ||
+      (edge ? edge === 'min' : faker.datatype.boolean({ probability: undefinedProbability }));
+    if (shouldBeUndefined) {
+      return undefined;
+    }
+    return handleSchema(schema.wrapped, faker, context, options);
+  },
   
   'nullish': (schema: any, faker: Faker, context: any, options: any) => {
-    const choice = faker.number.int({ min: 0, max: 2 });
+    const { nullProbability, undefinedProbability } = getPresenceProbabilities(schema, options);
+    const edge = getEdge(faker, context, options);
+    const choice = shouldTerminate(schema.wrapped, context, options) || lacksReferences(schema.wrapped, context) || edge === 'min'
+      ? 1
+      : edge === 'max' ? 2 : drawOutcome(faker, [nullProbability, undefinedProbability]);
     if (choice === 0) return null;
     if (choice === 1) return undefined;
     return handleSchema(schema.wrapped, faker, context, options);
   },
   
   'record': (schema: any, faker: Faker, context: any, options: any) => {
-    const keyCount = faker.number.int({ min: 1, max: 5 });
+    const range = getCountRange(schema, ENTRIES_ACTIONS, options.defaultRecordEntries);
+    const count = shouldTerminate(schema.value, context, options) ? range.required : drawInt(faker, range, context, options);
+    const keys = drawDistinct(count, () => handleSchema(schema.key, faker, context, options))
+      .filter((key) => typeof key === 'string');
+    assertDistinctCount(keys.length, range.required, 'record keys', context);
+
     const result: Record<string, any> = {};
-    
-    for (let i = 0; i < keyCount; i++) {
-      const key = faker.string.alphanumeric(8);
-      result[key] = handleSchema(schema.value, faker, context, options);
+    for (const key of keys) {
+      const value = handleSchema(schema.value, faker, { ...context, path: entryPath(context.path, key) }, options);
+      if (value !== VOID) {
+        result[key] = value;
+      }
     }
     
     return result;
   },
   
   'map': (schema: any, faker: Faker, context: any, options: any) => {
-    const size = faker.number.int({ min: 0, max: 5 });
+    const range = getCountRange(schema, SIZE_ACTIONS, options.defaultMapSize);
+    const terminate = shouldTerminate(schema.key, context, options) || shouldTerminate(schema.value, context, options);
+    const count = terminate ? range.required : drawInt(faker, range, context, options);
+    const keys = drawDistinct(count, () => handleSchema(schema.key, faker, context, options));
+    assertDistinctCount(keys.length, range.required, 'map keys', context);
+
     const result = new Map();
-    
-    for (let i = 0; i < size; i++) {
-      const key = handleSchema(schema.key, faker, context, options);
-      const value = handleSchema(schema.value, faker, context, options);
-      result.set(key, value);
+    for (const [index, key] of keys.entries()) {
+      result.set(key, handleSchema(schema.value, faker, { ...context, path: itemPath(context.path, index) }, options));
     }
     
     return result;
   },
   
   'set': (schema: any, faker: Faker, context: any, options: any) => {
-    const size = faker.number.int({ min: 0, max: 5 });
-    const result = new Set();
-    
-    for (let i = 0; i < size; i++) {
-      result.add(handleSchema(schema.value, faker, context, options));
-    }
+    const range = getCountRange(schema, SIZE_ACTIONS, options.defaultSetSize);
+    const count = shouldTerminate(schema.value, context, options) ? range.required : drawInt(faker, range, context, options);
+    let index = 0;
+    const values = drawDistinct(count, () => {
+      return handleSchema(schema.value, faker, { ...context, path: itemPath(context.path, index++) }, options);
+    });
+    assertDistinctCount(values.length, range.required, 'set values', context);
     
-    return result;
+    return new Set(values);
   },
   
   'tuple': (schema: any, faker: Faker, context: any, options: any) => {
-    return schema.items.map((itemSchema: any) => handleSchema(itemSchema, faker, context, options));
+    return generateItems(schema, faker, context, options);
+  },
+
+  'strict_tuple': (schema: any, faker: Faker, context: any, options: any) => {
+    return generateItems(schema, faker, context, options);
+  },
+
+  'loose_tuple': (schema: any, faker: Faker, context: any, options: any) => {
+    const result = generateItems(schema, faker, context, options);
+    return addExtraItems(result, faker, context, options, () => faker.lorem.word());
+  },
+
+  'tuple_with_rest': (schema: any, faker: Faker, context: any, options: any) => {
+    const result = generateItems(schema, faker, context, options);
+    // A `never` rest schema forbids extra items
+    if (schema.rest.type === 'never' || shouldTerminate(schema.rest, context, options)) return result;
+    return addExtraItems(result, faker, context, options, (index) => {
+      return handleSchema(schema.rest, faker, { ...context, path: itemPath(context.path, index) }, options);
+    });
   },
   
   'variant': (schema: any, faker: Faker, context: any, options: any) => {
-    const options_list = Object.values(schema.options);
-    const choice = faker.number.int({ min: 0, max: options_list.length - 1 });
-    return handleSchema(options_list[choice], faker, context, options);
+    const branches = getWeightedBranches(schema, options.discriminators);
+    if (branches.length === 0) {
+      console.error(`No option of the variant matches the discriminators`, schema, options.discriminators);
+      throw new Error(`No option of variant "${schema.key}" matches the discriminators at path "${context.path}"`);
+    }
+
+    const choices = terminatingChoices(branches.map((branch) => branch.schema), context, options);
+    const candidates = branches.filter((branch) => choices.includes(branch.schema));
+    const edge = getEdge(faker, context, options);
+    const branch = edge
+      ? candidates[edge === 'min' ? 0 : candidates.length - 1]!
+      : pickWeighted(candidates, candidates.map((candidate) => candidate.weight), faker);
+    const result = handleSchema(branch.schema, faker, context, options) as Record<string, unknown>;
+
+    // Pin the discriminators to a value drawn with the configured weights
+    for (const [key, values] of Object.entries(branch.values)) {
+      result[key] = edge ? values[edge === 'min' ? 0 : values.length - 1] : pickWeighted(values, branch.weights[key]!, faker);
+    }
+    return result;
   },
   
   'intersect': (schema: any, faker: Faker, context: any, options: any) => {
+    const merged = mergeSchemas(schema.options);
+    if (merged) {
+      return handleSchema(merged, faker, context, options);
+    }
+
     // Pour l'intersection, on génère et merge les résultats
     const results = schema.options.map((optionSchema: any) => handleSchema(optionSchema, faker, context, options));
     
@@ -229,7 +320,7 @@ const schemaHandlers = {
   
   'lazy': (schema: any, faker: Faker, context: any, options: any) => {
     const resolvedSchema = schema.getter({});
-    return handleSchema(resolvedSchema, faker, context, options);
+    return handleSchema(resolvedSchema, faker, { ...context, depth: context.depth + 1 }, options);
   },
   
   'custom': (schema: any, faker: Faker) => faker.lorem.word(),
@@ -258,12 +349,177 @@ const schemaHandlers = {
   }
 };
 
-function handleSchema(schema: any, faker: Faker, context: any, options: any): any {
+const ENTRIES_ACTIONS = { exact: 'entries', min: 'min_entries', max: 'max_entries' };
+const SIZE_ACTIONS = { exact: 'size', min: 'min_size', max: 'max_size' };
+
+/**
+ * Throws when fewer distinct keys or values than required could be drawn,
+ * which means the domain of their schema is too small
+ */
+function assertDistinctCount(count: number, required: number, description: string, context: GenerationContext): void {
+  if (count < required) {
+    throw new Error(
+      `Unable to generate ${required} distinct ${description} at path "${context.path}": only ${count} found, the domain of their schema is too small`,
+    );
+  }
+}
+
+/**
+ * Generates the declared entries of an object schema, leaving out absent optional ones
+ */
+function generateEntries(schema: any, faker: Faker, context: GenerationContext, options: ResolvedMockGeneratorOptions): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const key in schema.entries) {
+    const fieldSchema = schema.entries[key];
+    const fieldContext = { ...context, path: entryPath(context.path, key) };
+    const value = handleSchema(fieldSchema, faker, fieldContext, options);
+    if (value !== VOID) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Adds extra entries to an object, under keys that are not declared by its
+ * schema. A drawn key colliding with an existing one gets a numeric suffix,
+ * so that the drawn count of entries is added.
+ */
+function addExtraEntries(
+  result: Record<string, any>,
+  schema: any,
+  faker: Faker,
+  context: GenerationContext,
+  options: ResolvedMockGeneratorOptions,
+  generateValue: (key: string) => unknown,
+): Record<string, any> {
+  const count = drawInt(faker, options.extraProperties, context, options);
+  for (let i = 0; i < count; i++) {
+    const word = faker.lorem.word();
+    let key = word;
+    for (let suffix = 2; key in schema.entries || key in result; suffix++) {
+      key = `${word}${suffix}`;
+    }
+    const value = generateValue(key);
+    if (value !== VOID) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Generates the declared items of a tuple schema
+ */
+function generateItems(schema: any, faker: Faker, context: GenerationContext, options: ResolvedMockGeneratorOptions): any[] {
+  return schema.items.map((itemSchema: any, index: number) => {
+    const value = handleSchema(itemSchema, faker, { ...context, path: itemPath(context.path, index) }, options);
+    return value === VOID ? undefined : value;
+  });
+}
+
+/**
+ * Appends extra trailing items to a tuple
+ */
+function addExtraItems(
+  result: any[],
+  faker: Faker,
+  context: GenerationContext,
+  options: ResolvedMockGeneratorOptions,
+  generateItem: (index: number) => unknown,
+): any[] {
+  const count = drawInt(faker, options.extraItems, context, options);
+  for (let i = 0; i < count; i++) {
+    const value = generateItem(result.length);
+    result.push(value === VOID ? undefined : value);
+  }
+  return result;
+}
+
+/**
+ * Handlers registered globally through `registerHandler`, in registration
+ * order, each one wrapping the previous ones of the same type
+ */
+const handlerRegistry: { type: string; handler: SchemaHandler }[] = [];
+
+/**
+ * Registers a handler for a schema type on every generator created afterwards.
+ * The handler receives the previously registered (or built-in) handler for the
+ * same type as its `next` argument, so it can wrap it instead of replacing it.
+ *
+ * @example
+ * ```ts
+ * const unregister = registerHandler("date", (schema, faker, context, options, next) => {
+ *   return faker.date.future();
+ * });
+ * ```
+ *
+ * @param type - The schema type to handle (e.g. `"date"`, `"my_custom_type"`)
+ * @param handler - The handler to use for that type
+ * @returns A function removing this registration only, whatever was
+ * registered after it
+ */
+export function registerHandler(type: string, handler: SchemaHandler): () => void {
+  const registration = { type, handler };
+  handlerRegistry.push(registration);
+  return () => {
+    const index = handlerRegistry.indexOf(registration);
+    if (index !== -1) handlerRegistry.splice(index, 1);
+  };
+}
+
+/**
+ * Resolves a count range of the generator options, raising the maximum to
+ * the minimum, e.g. `{ min: 5 }` gives `{ min: 5, max: 5 }`
+ *
+ * @param range - The configured range, if any
+ * @param defaults - The default range
+ * @returns The resolved range
+ */
+function resolveCountRange(range: { min?: number; max?: number } = {}, defaults: { min: number; max: number }): { min: number; max: number } {
+  const min = range.min ?? defaults.min;
+  return { min, max: Math.max(min, range.max ?? defaults.max) };
+}
+
+/**
+ * Builds the handler table of a generator: built-in handlers, then global
+ * registrations, then the handlers given in the generator options.
+ * Each layer is bound to the handler it overrides.
+ */
+function resolveHandlers(custom: Record<string, SchemaHandler> = {}): Record<string, ResolvedSchemaHandler> {
+  const resolved: Record<string, ResolvedSchemaHandler> = { ...schemaHandlers };
+  const registered = handlerRegistry.map(({ type, handler }): [string, SchemaHandler] => [type, handler]);
+  for (const layer of [registered, Object.entries(custom)]) {
+    for (const [type, handler] of layer) {
+      const next = resolved[type];
+      resolved[type] = (schema, faker, context, options) => handler(schema, faker, context, options, next);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Generates a value for any schema using the handlers of the given options.
+ * Custom handlers can call it to generate their child schemas.
+ *
+ * @param schema - The schema to generate a value for
+ * @param faker - The Faker instance to draw from
+ * @param context - The current generation context
+ * @param options - The resolved generator options
+ * @returns A value passing the schema validation, as an input of the schema (before its transformations)
+ */
+export function handleSchema(schema: any, faker: Faker, context: GenerationContext, options: ResolvedMockGeneratorOptions): any {
   if (!schema) {
     console.error('Schema is undefined!');
     return faker.lorem.word();
   }
   
+  // Each path draws from its own Faker instance, seeded from its path
+  if (context.seed !== undefined && context.seededPath !== context.path) {
+    faker = createSeededFaker(faker, deriveSeed(context.seed, context.path));
+    context = { ...context, seededPath: context.path };
+  }
+
   // Keep the original schema for validation (includes all constraints)
   const originalSchema = schema;
   
@@ -293,55 +549,117 @@ function handleSchema(schema: any, faker: Faker, context: any, options: any): an
     schema = { ...schema, pipe: allPipeItems };
   }
   
+  // References pick the identifier of a generated entity
+  const referenced = getReference(schema);
+  if (referenced !== null) {
+    return generateValid(originalSchema, () => pickReference(referenced, faker, context, options), context, options, (result) => {
+      console.error(`Failed to generate valid reference to ${referenced}:`, result);
+      return new Error(`Max attempts reached for reference: ${referenced}`);
+    });
+  }
+
   // First, check if schema has a custom fake generator
   const customGenerator = getFakeGenerator(schema);
   if (customGenerator) {
     try {
-      let maxAttempts = options.maxAttempts;
-      let result = null;
-      while (maxAttempts > 0) {
-        result = customGenerator(faker, context);
-        if(result === VOID) {
-          result = undefined;
-        }
-        const valid = v.safeParse(originalSchema, result);
-        if (valid.success) {
-          return valid.output;
-        }
-        maxAttempts--;
-      }
-      console.error(`Failed to generate valid value using custom fake generator`, result);
-      throw new Error(`Max attempts reached using custom fake generator`);
+      return generateValid(originalSchema, () => customGenerator(faker, context), context, options, () => {
+        console.error(`Failed to generate valid value using custom fake generator`);
+        return new Error(`Max attempts reached using custom fake generator`);
+      });
     } catch (error) {
       console.warn('Custom fake generator failed, falling back to default handlers:', error);
       // Fall through to default handlers
     }
   }
+
+  // Transformations changing the value: generate their input from their
+  // output when they can be inverted (e.g. `parseJson`), otherwise from the
+  // actions applying before them only
+  const split = splitTransformation(schema);
+  if (split?.invert && split.output) {
+    const { invert, output } = split;
+    return generateValid(originalSchema, () => invert(handleSchema(output, faker, context, options)), context, options, (result) => {
+      console.error(`Failed to generate valid input for transformation:`, split.transformation, result);
+      return new Error(`Max attempts reached for transformation: ${split.transformation.type}`);
+    });
+  }
+  if (split) {
+    schema = split.input;
+  }
   
   // Use default handlers
-  const handler = schemaHandlers[schema.type as keyof typeof schemaHandlers];
+  const handler = options.handlers[schema.type];
   if (handler) {
-    let maxAttempts = options.maxAttempts;
-    let result = null;
-    while (maxAttempts > 0) {
-      result = handler(schema, faker, context, options);
-      if(result === VOID) {
-        result = undefined;
-      }
-      const valid = v.safeParse(originalSchema, result);
-      if (valid.success) {
-        return valid.output;
-      }
-      maxAttempts--;
-    }
-    console.error(`Failed to generate valid value for schema type:`, schema, result);
-    throw new Error(`Max attempts reached for schema type: ${schema.type}`);
+    // A boundary value failing the schema is followed by random draws, and
+    // children seeded by path draw new values
+    const retryContext = (attempt: number): GenerationContext => ({
+      ...context,
+      edge: null,
+      ...(context.seed !== undefined && { seed: deriveSeed(context.seed, `${context.path}#${attempt}`) }),
+    });
+    const generateValue = (attempt: number) => handler(schema, faker, attempt > 0 ? retryContext(attempt) : context, options);
+    return generateValid(originalSchema, generateValue, context, options, (result) => {
+      console.error(`Failed to generate valid value for schema type:`, schema, result);
+      return new Error(`Max attempts reached for schema type: ${schema.type}`);
+    });
   } else {
     console.warn(`No handler for type: ${schema.type}`);
     return faker.lorem.word();
   }
 }
 
+/**
+ * Generates values until one passes the schema, up to the maximum number of
+ * attempts. The value is returned as generated, i.e. as an input of the
+ * schema: transformations of its pipe are not applied.
+ *
+ * @param schema - The schema to validate against
+ * @param generateValue - Generates a candidate value
+ * @param context - The current generation context
+ * @param options - The resolved generator options
+ * @param failure - Builds the error thrown once every attempt failed
+ * @returns The first valid value
+ */
+function generateValid(
+  schema: any,
+  generateValue: (attempt: number) => unknown,
+  context: GenerationContext,
+  options: ResolvedMockGeneratorOptions,
+  failure: (result: unknown) => Error,
+): unknown {
+  let result = null;
+  // Sequence values drawn by discarded attempts are drawn again
+  const sequences = context.sequences.snapshot();
+  for (let attempt = 0; attempt < options.maxAttempts; attempt++) {
+    result = generateValue(attempt);
+    if (result === VOID) {
+      result = undefined;
+    }
+    if (isValid(schema, result, context)) {
+      return result;
+    }
+    context.sequences.restore(sequences);
+  }
+  throw failure(result);
+}
+
+/**
+ * Validates a generated value against its schema. When generating
+ * asynchronously, async schemas and values still holding promises are
+ * accepted as is: they are validated once the whole value is resolved.
+ *
+ * @param schema - The schema to validate against
+ * @param value - The generated value
+ * @param context - The current generation context
+ * @returns Whether the value is valid
+ */
+function isValid(schema: any, value: unknown, context: GenerationContext): boolean {
+  if (context.async && (schema.async || containsPromise(value))) {
+    return true;
+  }
+  return v.safeParse(schema, value).success;
+}
+
 /**
  * Creates a mock generator from a Valibot schema
  * 
@@ -349,7 +667,7 @@ function handleSchema(schema: any, faker: Faker, context: any, options: any): an
  * @param options - Configuration options
  * @returns A mock generator
  */
-export function createMockGenerator<TSchema extends v.GenericSchema>(
+export function createMockGenerator<TSchema extends v.GenericSchema | v.GenericSchemaAsync>(
   schema: TSchema,
   options: MockGeneratorOptions = {}
 ): MockGenerator<TSchema> {
@@ -359,20 +677,186 @@ export function createMockGenerator<TSchema extends v.GenericSchema>(
     }),
     maxAttempts: options.maxAttempts ?? 100,
     defaultArrayMaxLength: options.defaultArrayMaxLength ?? 10,
-    defaultStringMaxLength: options.defaultStringMaxLength ?? 20
+    defaultStringMaxLength: options.defaultStringMaxLength ?? 20,
+    defaultDateRange: resolveDefaultDateRange(options.defaultDateRange),
+    mode: options.mode ?? 'random',
+    maxDepth: options.maxDepth ?? 3,
+    seedByPath: options.seedByPath ?? false,
+    discriminators: options.discriminators ?? {},
+    optionalProbability: options.optionalProbability ?? 0.5,
+    nullProbability: options.nullProbability ?? 0.2,
+    undefinedProbability: options.undefinedProbability ?? 0.2,
+    defaultRecordEntries: {
+      min: options.defaultRecordEntries?.min ?? 1,
+      max: options.defaultRecordEntries?.max ?? 5,
+    },
+    defaultMapSize: {
+      min: options.defaultMapSize?.min ?? 0,
+      max: options.defaultMapSize?.max ?? 5,
+    },
+    defaultSetSize: {
+      min: options.defaultSetSize?.min ?? 0,
+      max: options.defaultSetSize?.max ?? 5,
+    },
+    extraProperties: resolveCountRange(options.extraProperties, { min: 0, max: 3 }),
+    extraItems: resolveCountRange(options.extraItems, { min: 0, max: 3 }),
+    handlers: resolveHandlers(options.handlers),
   };
 
-  function generate(): v.InferOutput<TSchema> {
-    const context = { path: "" };
-    return handleSchema(schema, resolvedOptions.faker, context, resolvedOptions);
+  // Seeding by path, every generated value gets its own seed, derived from
+  // the generator seed and the number of values generated before it
+  const baseSeed = resolvedOptions.seedByPath ? options.faker?.seed ?? resolvedOptions.faker.number.int() : 0;
+  let generated = 0;
+  const sequences = createSequences();
+  const references = options.session?.references ?? new Map<string, unknown[]>();
+  // Only schemas marking identifiers record the values they return
+  const recordsIdentifiers = hasIdentifiers(schema);
+
+  function createContext(context: Pick<GenerationContext, 'async' | 'edge'> = {}): GenerationContext {
+    return {
+      depth: 0,
+      path: "",
+      references,
+      sequences,
+      ...context,
+      ...(resolvedOptions.seedByPath && { seed: deriveSeed(baseSeed, String(generated++)) }),
+    };
+  }
+
+  // Parsing an async schema returns a promise, not a result
+  function requireSync(method: string): void {
+    if (schema.async) {
+      console.error(`Async schema passed to ${method}():`, schema);
+      throw new Error(`${method}() does not support async schemas, use generateAsync() instead`);
+    }
+  }
+
+  function generateInput(): v.InferInput<TSchema> {
+    requireSync('generateInput');
+    return handleSchema(schema, resolvedOptions.faker, createContext(), resolvedOptions);
+  }
+
+  function generateManyInput(count: number): v.InferInput<TSchema>[] {
+    requireSync('generateManyInput');
+    return Array.from({ length: count }, () => generateInput());
+  }
+
+  function generateBoundaries(): v.InferOutput<TSchema>[] {
+    requireSync('generateBoundaries');
+    return (['min', 'max'] as const).map((edge) => {
+      return v.parse(schema as v.GenericSchema, handleSchema(schema, resolvedOptions.faker, createContext({ edge }), resolvedOptions));
+    });
+  }
+
+  function generateInvalid(target: InvalidTarget = {}): InvalidValue {
+    requireSync('generateInvalid');
+    // Invalid values are not entities, they draw no sequence value
+    const snapshot = sequences.snapshot();
+    for (let attempt = 0; attempt < resolvedOptions.maxAttempts; attempt++) {
+      const invalid = createInvalidValue(schema, generateInput(), target, resolvedOptions.faker);
+      sequences.restore(snapshot);
+      if (invalid) {
+        return invalid;
+      }
+    }
+    console.error(`Failed to generate an invalid value for target:`, target, schema);
+    throw new Error(`Unable to violate ${target.type ?? 'any constraint'} at path "${target.path ?? '*'}"`);
+  }
+
+  function generateAll(): v.InferOutput<TSchema>[] {
+    requireSync('generateAll');
+    const enumeration = enumerateSchema(schema);
+    if (!enumeration) {
+      console.error(`Schema has no finite set of values:`, schema);
+      throw new Error(`Unable to enumerate schema type: ${schema.type}`);
+    }
+    // Distinct inputs can share an output, e.g. a missing key and its default
+    const outputs = new Map<string, v.InferOutput<TSchema>>();
+    for (const input of enumeration()) {
+      const output = v.parse(schema as v.GenericSchema, input);
+      outputs.set(toKey(output), output);
+    }
+    return [...outputs.values()];
   }
 
-  function generateMany(count: number): v.InferOutput<TSchema>[] {
-    return Array.from({ length: count }, () => generate());
+  // Returned values are the entities references can point at
+  function emit<T>(value: T): T {
+    if (recordsIdentifiers) {
+      recordIdentifiers(schema, value, references);
+    }
+    return value;
+  }
+
+  function generateOverridden(overrides: Overrides<v.InferOutput<TSchema>> | undefined, index: number): v.InferOutput<TSchema> {
+    let broken: string[] = [];
+    const snapshot = sequences.snapshot();
+    for (let attempt = 0; attempt < resolvedOptions.maxAttempts; attempt++) {
+      // The input is already valid, parsing applies the transformations and defaults
+      const value = v.parse(schema as v.GenericSchema, generateInput());
+      if (overrides === undefined) {
+        return emit(value);
+      }
+      // Generated values may conflict with overrides, e.g. in a `check`
+      const result = applyOverrides(schema, value, overrides, resolvedOptions.faker, index);
+      if (result.broken.length === 0) {
+        return emit(result.value);
+      }
+      broken = result.broken;
+      sequences.restore(snapshot);
+      // Overridden values breaking their own constraints fail on every attempt
+      if (!result.conflicting) break;
+    }
+    console.error(`Overrides fail the schema:`, overrides, schema);
+    throw new Error(`Invalid overrides: ${broken.join('; ')}`);
+  }
+
+  function generate(overrides?: Overrides<v.InferOutput<TSchema>>): v.InferOutput<TSchema> {
+    requireSync('generate');
+    return generateOverridden(overrides, 0);
+  }
+
+  function generateMany(count: number, overrides?: Overrides<v.InferOutput<TSchema>>): v.InferOutput<TSchema>[] {
+    requireSync('generateMany');
+    return Array.from({ length: count }, (_item, index) => generateOverridden(overrides, index));
+  }
+
+  async function generateAsync(): Promise<v.InferOutput<TSchema>> {
+    let maxAttempts = resolvedOptions.maxAttempts;
+    let result = null;
+    const snapshot = sequences.snapshot();
+    while (maxAttempts > 0) {
+      result = await resolvePromises(handleSchema(schema, resolvedOptions.faker, createContext({ async: true }), resolvedOptions));
+      const valid = await v.safeParseAsync(schema, result);
+      if (valid.success) {
+        return emit(valid.output);
+      }
+      sequences.restore(snapshot);
+      maxAttempts--;
+    }
+    console.error(`Failed to generate valid value for async schema type:`, schema, result);
+    throw new Error(`Max attempts reached for async schema type: ${schema.type}`);
+  }
+
+  async function generateManyAsync(count: number): Promise<v.InferOutput<TSchema>[]> {
+    const results: v.InferOutput<TSchema>[] = [];
+    // One at a time, so that seeded generators stay reproducible
+    for (let i = 0; i < count; i++) {
+      results.push(await generateAsync());
+    }
+    return results;
   }
 
   return {
     generate,
-    generateMany
+    generateMany,
+    generateInput,
+    generateManyInput,
+    generateBoundaries,
+    generateInvalid,
+    generateAll,
+    estimateCardinality: () => estimateCardinality(schema),
+    resetSequences: (name?: string) => sequences.reset(name),
+    generateAsync,
+    generateManyAsync,
   };
 }
\ No newline at end of file
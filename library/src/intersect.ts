@@ -0,0 +1,93 @@
+import * as v from "valibot";
+import { OBJECT_TYPES, splitPipe } from "./walk.ts";
+
+/**
+ * Types fully described by their pipe, that members of the same type can share
+ */
+const SCALAR_TYPES = ['string', 'number', 'bigint', 'date', 'null', 'undefined', 'void', 'nan', 'symbol', 'file', 'blob'];
+
+/**
+ * Member types that do not restrict an intersection
+ */
+const NEUTRAL_TYPES = ['any', 'unknown'];
+
+/**
+ * Lists the finite values accepted by a schema, or `null` when they cannot
+ * be enumerated
+ */
+function getFiniteValues(schema: any): unknown[] | null {
+  switch (schema.type) {
+    case 'literal':
+      return [schema.literal];
+    case 'picklist':
+    case 'enum':
+      return [...schema.options];
+    case 'boolean':
+      return [true, false];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Applies the given actions to a base schema, as a regular valibot pipe
+ */
+function withActions(base: any, actions: any[]): any {
+  return actions.length > 0 ? (v.pipe as any)(base, ...actions) : base;
+}
+
+/**
+ * Merges the members of an intersect schema into a single schema combining
+ * all their constraints:
+ * - members of the same type share a pipe with the actions of every member,
+ *   so numeric, date and length bounds narrow each other
+ * - objects merge their entries, intersecting the entries of shared keys
+ * - arrays intersect their item schemas
+ * - literals, picklists and enums keep the values accepted by every member
+ *
+ * @param schemas - The members of the intersection
+ * @returns The merged schema, or `null` when the members cannot be merged
+ */
+export function mergeSchemas(schemas: any[]): any | null {
+  const parts = schemas
+    .flatMap((schema) => schema.type === 'intersect' && !schema.pipe ? schema.options : [schema])
+    .map(splitPipe)
+    .filter(({ base }) => !NEUTRAL_TYPES.includes(base.type));
+
+  if (parts.length === 0) return schemas[0] ?? null;
+  if (parts.length === 1) return withActions(parts[0]!.base, parts[0]!.actions);
+
+  const actions = parts.flatMap((part) => part.actions);
+  const bases = parts.map((part) => part.base);
+
+  // Finite members: keep the values every member accepts
+  const finite = parts.find((part) => getFiniteValues(part.base) !== null);
+  if (finite) {
+    const values = getFiniteValues(finite.base)!.filter((value) => schemas.every((schema) => v.is(schema, value)));
+    if (values.length === 0) return null;
+    return values.length === 1 ? v.literal(values[0] as any) : v.union(values.map((value) => v.literal(value as any)));
+  }
+
+  if (bases.every((base) => OBJECT_TYPES.includes(base.type))) {
+    const entries: Record<string, any> = {};
+    for (const key of new Set(bases.flatMap((base) => Object.keys(base.entries)))) {
+      const members = bases.filter((base) => key in base.entries).map((base) => base.entries[key]);
+      entries[key] = members.length === 1 ? members[0] : mergeSchemas(members) ?? v.intersect(members);
+    }
+    // The strictest member decides which extra keys are allowed
+    const base = bases.find((base) => base.type === 'strict_object') ??
+      bases.find((base) => base.type === 'object') ??
+      bases[0];
+    return withActions({ ...base, entries }, actions);
+  }
+
+  const type = bases[0].type;
+  if (!bases.every((base) => base.type === type)) return null;
+
+  if (type === 'array') {
+    const items = bases.map((base) => base.item);
+    return withActions({ ...bases[0], item: mergeSchemas(items) ?? v.intersect(items) }, actions);
+  }
+
+  return SCALAR_TYPES.includes(type) ? withActions(bases[0], actions) : null;
+}
@@ -0,0 +1,162 @@
+import * as v from "valibot";
+import type { Faker } from "@faker-js/faker";
+import type { InvalidTarget, InvalidValue } from "./types.ts";
+import { issuePath } from "./path.ts";
+import { splitPipe, walkSchemaValue, WRAPPER_TYPES } from "./walk.ts";
+
+/**
+ * Schema types resolved to one or several other schemas by the walk, without
+ * constraints of their own
+ */
+const WALKED_TYPES = [...WRAPPER_TYPES, 'lazy', 'union', 'variant', 'intersect'];
+
+/**
+ * Values of the wrong type or shape, tried to violate a schema itself and any
+ * constraint without a dedicated violation
+ */
+const GENERIC_CANDIDATES: unknown[] = ['!', '', 'invalid value', 0, -1, 0.5, true, null, [], {}];
+
+/**
+ * A constraint that can be violated: a schema or a pipe action at a path
+ */
+interface Violation {
+  /** Path of the constrained value */
+  path: string;
+  /** Location of the constrained value within the generated value */
+  keys: Array<string | number>;
+  /** Type of the schema or pipe action */
+  type: string;
+  /** The pipe action, `undefined` for the schema itself */
+  action?: any;
+  /** The valid value at that path */
+  value: unknown;
+}
+
+/**
+ * Returns a value lower than the requirement of a bound
+ */
+function below(requirement: unknown): unknown {
+  if (typeof requirement === 'bigint') return requirement - 1n;
+  if (requirement instanceof Date) return new Date(requirement.getTime() - 1);
+  return typeof requirement === 'number' ? requirement - 1 : undefined;
+}
+
+/**
+ * Returns a value greater than the requirement of a bound
+ */
+function above(requirement: unknown): unknown {
+  if (typeof requirement === 'bigint') return requirement + 1n;
+  if (requirement instanceof Date) return new Date(requirement.getTime() + 1);
+  return typeof requirement === 'number' ? requirement + 1 : undefined;
+}
+
+/**
+ * Returns copies of a string or an array with another length, built from
+ * its own content first
+ */
+function resize(value: unknown, length: number): unknown[] {
+  if (length < 0) return [];
+  if (typeof value === 'string') {
+    if (length <= value.length) return [value.slice(0, length)];
+    return [value.repeat(Math.ceil(length / Math.max(1, value.length))).slice(0, length), value.padEnd(length, 'a')];
+  }
+  if (Array.isArray(value)) {
+    if (length <= value.length) return [value.slice(0, length)];
+    return value.length > 0 ? [[...value, ...Array.from({ length: length - value.length }, (_item, index) => value[index % value.length])]] : [];
+  }
+  return [];
+}
+
+/**
+ * Builds candidate values violating a pipe action, from its requirement and
+ * the valid value
+ */
+const violations: Record<string, (requirement: any, value: any) => unknown[]> = {
+  min_length: (requirement, value) => resize(value, requirement - 1),
+  max_length: (requirement, value) => resize(value, requirement + 1),
+  length: (requirement, value) => [...resize(value, requirement + 1), ...resize(value, requirement - 1)],
+  non_empty: (_requirement, value) => resize(value, 0),
+  min_value: (requirement) => [below(requirement)],
+  gt_value: (requirement) => [requirement],
+  max_value: (requirement) => [above(requirement)],
+  lt_value: (requirement) => [requirement],
+  value: (requirement) => [above(requirement), below(requirement)],
+  not_value: (requirement) => [requirement],
+  not_values: (requirement) => [...requirement],
+  integer: (_requirement, value) => [value + 0.5],
+  safe_integer: () => [Number.MAX_SAFE_INTEGER + 2, 0.5],
+  finite: () => [Infinity],
+  multiple_of: (requirement, value) => typeof value === 'bigint'
+    ? [value + 1n]
+    : [value + requirement / 2, value + 1],
+};
+
+/**
+ * Lists the constraints of a schema that can be violated, walking the schema
+ * along the valid value so that only reachable constraints are listed
+ *
+ * @param schema - The schema to walk
+ * @param value - The valid value of the schema
+ * @returns The constraints found
+ */
+function collectViolations(schema: any, value: unknown): Violation[] {
+  const found: Violation[] = [];
+  walkSchemaValue(schema, value, (schema, value, path, keys) => {
+    if (WALKED_TYPES.includes(schema.type)) return;
+    const { base, actions } = splitPipe(schema);
+    found.push({ path, keys, type: base.type, value });
+    for (const action of actions) {
+      if (action.kind === 'validation') found.push({ path, keys, type: action.type, action, value });
+    }
+  });
+  return found;
+}
+
+/**
+ * Returns a copy of a value with the value at the given location replaced
+ */
+function replaceAt(root: unknown, keys: Array<string | number>, replacement: unknown): unknown {
+  if (keys.length === 0) return replacement;
+  const [key, ...rest] = keys;
+  const copy: any = Array.isArray(root) ? [...root] : { ...(root as object) };
+  copy[key!] = replaceAt((root as any)[key!], rest, replacement);
+  return copy;
+}
+
+/**
+ * Builds a value violating exactly one constraint of a schema, from a valid
+ * value of the schema.
+ *
+ * The constraints matching the target are tried in random order, with
+ * candidate values built from the constraint first and generic values of the
+ * wrong type or shape then. A candidate is kept when parsing the schema
+ * reports a single issue, for the targeted constraint at the targeted path.
+ *
+ * @param schema - The schema to violate
+ * @param valid - A valid value of the schema
+ * @param target - The path and type of the constraint to violate, any when omitted
+ * @param faker - The Faker instance to draw from
+ * @returns The invalid value, its path and the issue it raises
+ */
+export function createInvalidValue(schema: any, valid: unknown, target: InvalidTarget, faker: Faker): InvalidValue | null {
+  const candidates = faker.helpers.shuffle(
+    collectViolations(schema, valid).filter((violation) =>
+      (target.path === undefined || violation.path === target.path) &&
+      (target.type === undefined || violation.type === target.type)
+    ),
+  );
+
+  for (const violation of candidates) {
+    const specific = violation.action ? violations[violation.type]?.(violation.action.requirement, violation.value) ?? [] : [];
+    for (const candidate of [...specific, ...GENERIC_CANDIDATES]) {
+      const value = replaceAt(valid, violation.keys, candidate);
+      const result = v.safeParse(schema, value);
+      const issue = result.issues?.length === 1 ? result.issues[0] : undefined;
+      if (issue && issue.type === violation.type && issuePath(issue) === violation.path) {
+        return { value, path: violation.path, issue };
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,253 @@
+import type { Faker } from "@faker-js/faker";
+import { getRequirements, hasAction } from "./actions.ts";
+import { nextAfter } from "./boundary.ts";
+import type { BoundaryEdge } from "./types.ts";
+
+/**
+ * Range used when a number schema has no bound at all
+ */
+const DEFAULT_NUMBER_MIN = -1000;
+const DEFAULT_NUMBER_MAX = 1000;
+
+/**
+ * Number of random draws before falling back to deterministic candidates
+ */
+const SAMPLE_ATTEMPTS = 20;
+
+/**
+ * Constraints of a number schema, collected from its pipe
+ */
+export interface NumberConstraints {
+  /** Lower bound, `-Infinity` when unbounded */
+  min: number;
+  /** Whether the lower bound itself is excluded */
+  minExclusive: boolean;
+  /** Upper bound, `Infinity` when unbounded */
+  max: number;
+  /** Whether the upper bound itself is excluded */
+  maxExclusive: boolean;
+  /** Whether the value must be an integer */
+  integer: boolean;
+  /** Whether the value must be a safe integer */
+  safeInteger: boolean;
+  /** Every divisor the value must be a multiple of */
+  multipleOf: number[];
+  /** Values that are not allowed */
+  excluded: number[];
+  /** Only allowed values, `null` when any value is allowed */
+  allowed: number[] | null;
+}
+
+/**
+ * Collects the constraints of a number schema.
+ * When an action appears several times, the strictest one wins.
+ *
+ * @param schema - The number schema
+ * @returns The collected constraints
+ */
+export function getNumberConstraints(schema: any): NumberConstraints {
+  const constraints: NumberConstraints = {
+    min: -Infinity,
+    minExclusive: false,
+    max: Infinity,
+    maxExclusive: false,
+    integer: hasAction(schema, 'integer'),
+    safeInteger: hasAction(schema, 'safe_integer'),
+    multipleOf: getRequirements(schema, 'multiple_of').filter((requirement) => requirement !== 0).map(Math.abs),
+    excluded: [...getRequirements(schema, 'not_value'), ...getRequirements(schema, 'not_values').flat()],
+    allowed: null,
+  };
+
+  for (const requirement of [...getRequirements(schema, 'min_value'), ...getRequirements(schema, 'min')]) {
+    if (requirement > constraints.min) {
+      constraints.min = requirement;
+      constraints.minExclusive = false;
+    }
+  }
+  for (const requirement of getRequirements(schema, 'gt_value')) {
+    if (requirement >= constraints.min) {
+      constraints.min = requirement;
+      constraints.minExclusive = true;
+    }
+  }
+  for (const requirement of [...getRequirements(schema, 'max_value'), ...getRequirements(schema, 'max')]) {
+    if (requirement < constraints.max) {
+      constraints.max = requirement;
+      constraints.maxExclusive = false;
+    }
+  }
+  for (const requirement of getRequirements(schema, 'lt_value')) {
+    if (requirement <= constraints.max) {
+      constraints.max = requirement;
+      constraints.maxExclusive = true;
+    }
+  }
+
+  const allowedLists = [
+    ...getRequirements(schema, 'value').map((requirement) => [requirement]),
+    ...getRequirements(schema, 'values'),
+  ];
+  for (const list of allowedLists) {
+    constraints.allowed = constraints.allowed
+      ? constraints.allowed.filter((value) => list.includes(value))
+      : [...list];
+  }
+
+  return constraints;
+}
+
+/**
+ * Checks a value against number constraints, using the same arithmetic as Valibot
+ *
+ * @param value - The value to check
+ * @param constraints - The constraints to satisfy
+ */
+export function satisfiesNumberConstraints(value: number, constraints: NumberConstraints): boolean {
+  if (!Number.isFinite(value)) return false;
+  if (constraints.minExclusive ? value <= constraints.min : value < constraints.min) return false;
+  if (constraints.maxExclusive ? value >= constraints.max : value > constraints.max) return false;
+  if (constraints.integer && !Number.isInteger(value)) return false;
+  if (constraints.safeInteger && !Number.isSafeInteger(value)) return false;
+  if (constraints.multipleOf.some((divisor) => value % divisor != 0)) return false;
+  if (constraints.excluded.includes(value)) return false;
+  if (constraints.allowed && !constraints.allowed.includes(value)) return false;
+  return true;
+}
+
+/**
+ * Resolves the effective generation range, filling missing bounds with a
+ * window of the default size next to the known bound
+ */
+function resolveRange(constraints: NumberConstraints): [number, number] {
+  const span = DEFAULT_NUMBER_MAX - DEFAULT_NUMBER_MIN;
+  const hasMin = Number.isFinite(constraints.min);
+  const hasMax = Number.isFinite(constraints.max);
+  let min = hasMin ? constraints.min : hasMax ? Math.min(constraints.max, 0) - span / 2 : DEFAULT_NUMBER_MIN;
+  let max = hasMax ? constraints.max : hasMin ? Math.max(constraints.min, 0) + span / 2 : DEFAULT_NUMBER_MAX;
+  if (constraints.integer || constraints.safeInteger) {
+    min = Math.max(min, Number.MIN_SAFE_INTEGER);
+    max = Math.min(max, Number.MAX_SAFE_INTEGER);
+  }
+  return [min, max];
+}
+
+/**
+ * Returns the step every generated value should be a multiple of, or 0 for none
+ */
+function resolveStep(constraints: NumberConstraints): number {
+  const integers = constraints.multipleOf.filter(Number.isInteger);
+  if (integers.length > 0) {
+    return integers.reduce((step, divisor) => step / gcd(step, divisor) * divisor);
+  }
+  if (constraints.multipleOf.length > 0) {
+    return constraints.multipleOf[0]!;
+  }
+  return constraints.integer || constraints.safeInteger ? 1 : 0;
+}
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Returns the range of step multipliers `k` such that `k * step` lies within the bounds
+ */
+function resolveMultipliers(min: number, max: number, step: number, constraints: NumberConstraints): [number, number] {
+  let kMin = Math.ceil(min / step);
+  let kMax = Math.floor(max / step);
+  if (constraints.minExclusive && kMin * step <= constraints.min) kMin++;
+  if (constraints.maxExclusive && kMax * step >= constraints.max) kMax--;
+  return [Math.max(kMin, Number.MIN_SAFE_INTEGER), Math.min(kMax, Number.MAX_SAFE_INTEGER)];
+}
+
+/**
+ * Generates a number satisfying the given constraints.
+ *
+ * Values are drawn uniformly within the bounds, on the grid of the required
+ * multiple when there is one. When no random draw satisfies every
+ * constraint, one of the deterministic candidates (bounds, zero, powers of
+ * two multiples of the step) is picked instead, or the last draw is returned
+ * when none of them is valid either.
+ *
+ * @param constraints - The constraints to satisfy
+ * @param faker - The Faker instance to draw from
+ * @returns The generated number
+ */
+export function generateNumber(constraints: NumberConstraints, faker: Faker): number {
+  if (constraints.allowed) {
+    const candidates = constraints.allowed.filter((value) => satisfiesNumberConstraints(value, constraints));
+    const pool = candidates.length > 0 ? candidates : constraints.allowed;
+    return pool[faker.number.int({ min: 0, max: Math.max(0, pool.length - 1) })] ?? NaN;
+  }
+
+  const [min, max] = resolveRange(constraints);
+  const step = resolveStep(constraints);
+  const [kMin, kMax] = step > 0 ? resolveMultipliers(min, max, step, constraints) : [0, 0];
+
+  let value = NaN;
+  for (let i = 0; i < SAMPLE_ATTEMPTS; i++) {
+    if (step > 0) {
+      if (kMin > kMax) break;
+      value = faker.number.int({ min: kMin, max: kMax }) * step;
+    } else {
+      value = min === max ? min : faker.number.float({ min, max });
+    }
+    if (satisfiesNumberConstraints(value, constraints)) {
+      return value;
+    }
+  }
+
+  const candidates = [min, max, 0];
+  if (step > 0) {
+    // Float steps only divide exactly into a few of their multiples
+    for (let power = 1; power <= Math.max(Math.abs(kMin), Math.abs(kMax)); power *= 2) {
+      candidates.push(power * step, -power * step);
+    }
+  }
+  const valid = candidates.filter((candidate) => satisfiesNumberConstraints(candidate, constraints));
+  if (valid.length === 0) {
+    return value;
+  }
+  return valid[faker.number.int({ min: 0, max: valid.length - 1 })]!;
+}
+
+/**
+ * Returns the lowest or highest number satisfying the given constraints,
+ * within the default window on unbounded sides
+ *
+ * @param constraints - The constraints to satisfy
+ * @param edge - The edge to reach
+ * @returns The boundary value, or `null` when none is found next to the edge
+ */
+export function boundaryNumber(constraints: NumberConstraints, edge: BoundaryEdge): number | null {
+  if (constraints.allowed) {
+    const valid = constraints.allowed
+      .filter((value) => satisfiesNumberConstraints(value, constraints))
+      .sort((a, b) => a - b);
+    return (edge === 'min' ? valid[0] : valid[valid.length - 1]) ?? null;
+  }
+
+  const [min, max] = resolveRange(constraints);
+  const step = resolveStep(constraints);
+  const direction = edge === 'min' ? 1 : -1;
+
+  if (step > 0) {
+    const [kMin, kMax] = resolveMultipliers(min, max, step, constraints);
+    for (let i = 0, k = edge === 'min' ? kMin : kMax; i < SAMPLE_ATTEMPTS && k >= kMin && k <= kMax; i++, k += direction) {
+      if (satisfiesNumberConstraints(k * step, constraints)) return k * step;
+    }
+    return null;
+  }
+
+  let value = edge === 'min'
+    ? (constraints.minExclusive ? nextAfter(min, 1) : min)
+    : (constraints.maxExclusive ? nextAfter(max, -1) : max);
+  for (let i = 0; i < SAMPLE_ATTEMPTS; i++) {
+    if (satisfiesNumberConstraints(value, constraints)) return value;
+    value = nextAfter(value, direction);
+  }
+  return null;
+}
@@ -0,0 +1,106 @@
+import * as v from "valibot";
+import type { Faker } from "@faker-js/faker";
+import { entryPath, isWithinPath, issuePath } from "./path.ts";
+import { isPlainObject } from "./walk.ts";
+
+/**
+ * Deep merges overrides into a generated value, calling override functions
+ *
+ * @param value - The generated value
+ * @param overrides - The overrides of the value
+ * @param faker - The Faker instance passed to override functions
+ * @param index - The index of the value, passed to override functions
+ * @param path - The path of the value
+ * @param paths - Collects the paths of the overridden values
+ * @param partials - Collects the paths of the partial objects replacing a
+ * generated value that is not an object, e.g. an absent optional
+ * @returns The merged value
+ */
+function mergeOverrides(
+  value: unknown,
+  overrides: unknown,
+  faker: Faker,
+  index: number,
+  path: string,
+  paths: string[],
+  partials: string[],
+): unknown {
+  if (typeof overrides === 'function') {
+    paths.push(path);
+    return overrides(faker, { path, index, value });
+  }
+  if (isPlainObject(overrides)) {
+    if (!isPlainObject(value)) partials.push(path);
+    const base = isPlainObject(value) ? value : {};
+    const merged: Record<string, unknown> = { ...base };
+    for (const key of Object.keys(overrides)) {
+      merged[key] = mergeOverrides(base[key], overrides[key], faker, index, entryPath(path, key), paths, partials);
+    }
+    return merged;
+  }
+  paths.push(path);
+  return overrides;
+}
+
+/**
+ * Combines overrides into one, later overrides taking precedence: plain
+ * objects are merged, other values and functions replace the previous ones
+ *
+ * @param overrides - The overrides to combine, in order
+ * @returns The combined overrides
+ */
+export function combineOverrides(overrides: unknown[]): unknown {
+  return overrides.reduce((combined, next) => {
+    if (!isPlainObject(combined) || !isPlainObject(next)) return next;
+    const merged: Record<string, unknown> = { ...combined };
+    for (const key of Object.keys(next)) {
+      merged[key] = key in combined ? combineOverrides([combined[key], next[key]]) : next[key];
+    }
+    return merged;
+  }, {});
+}
+
+/**
+ * Applies overrides to a generated value and validates the result against
+ * the schema.
+ *
+ * Issues located at or within an overridden value, within a partial object
+ * replacing an absent value, or at one of their ancestors (e.g. a `check` of
+ * the enclosing object), are reported along with the override causing them.
+ * Other issues are left out, as re-validating the output of a transformation
+ * may fail on its own.
+ *
+ * @param schema - The schema of the value
+ * @param value - The generated value
+ * @param overrides - The overrides of the value
+ * @param faker - The Faker instance passed to override functions
+ * @param index - The index of the value, passed to override functions
+ * @returns The merged value, the description of each broken constraint, and
+ * whether none of them is at or within an overridden value, i.e. they may
+ * pass with other generated values
+ */
+export function applyOverrides(
+  schema: any,
+  value: unknown,
+  overrides: unknown,
+  faker: Faker,
+  index: number,
+): { value: unknown; broken: string[]; conflicting: boolean } {
+  const paths: string[] = [];
+  const partials: string[] = [];
+  const merged = mergeOverrides(value, overrides, faker, index, '', paths, partials);
+
+  const result = v.safeParse(schema, merged);
+  let conflicting = true;
+  const broken = (result.issues ?? []).flatMap((issue) => {
+    const path = issuePath(issue);
+    const within = paths.find((overridden) => isWithinPath(path, overridden));
+    if (within !== undefined) conflicting = false;
+    const override = within ??
+      partials.find((partial) => isWithinPath(path, partial)) ??
+      paths.find((overridden) => isWithinPath(overridden, path));
+    return override === undefined ? [] : [`override of "${override}" breaks ${issue.type} at "${path}": ${issue.message}`];
+  });
+
+  return { value: merged, broken, conflicting };
+}
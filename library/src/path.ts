@@ -0,0 +1,36 @@
+/**
+ * Returns the path of an object entry
+ */
+export function entryPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Returns the path of an array or tuple item
+ */
+export function itemPath(path: string, index: number): string {
+  return `${path}[${index}]`;
+}
+
+/**
+ * Formats the path of a Valibot issue like generation paths, e.g. `users[0].email`
+ *
+ * @param issue - The issue to locate
+ * @returns The path of the issue, empty for the root value
+ */
+export function issuePath(issue: { path?: Array<{ type: string; key: unknown }> | undefined }): string {
+  return (issue.path ?? []).reduce(
+    (path, item) => item.type === 'array' && typeof item.key === 'number' ? itemPath(path, item.key) : entryPath(path, String(item.key)),
+    '',
+  );
+}
+
+/**
+ * Returns whether a path is the given path or lies within it
+ *
+ * @param path - The path to locate
+ * @param ancestor - The enclosing path, empty for the root value
+ */
+export function isWithinPath(path: string, ancestor: string): boolean {
+  return ancestor === '' || path === ancestor || path.startsWith(`${ancestor}.`) || path.startsWith(`${ancestor}[`);
+}
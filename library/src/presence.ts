@@ -0,0 +1,66 @@
+import * as v from "valibot";
+import type { Faker } from "@faker-js/faker";
+import type { PresenceProbabilities, ResolvedMockGeneratorOptions } from "./types.ts";
+
+const PRESENCE_KEY = Symbol.for("presence_probabilities");
+
+/**
+ * Overrides the presence probabilities of a single `optional`, `nullable`,
+ * `nullish` or `undefinedable` schema, instead of the generator options.
+ *
+ * @example
+ * ```ts
+ * import * as v from "valibot";
+ * import { presence } from "@diister/valibot-mock";
+ *
+ * const schema = v.object({
+ *   // Filled 9 times out of 10
+ *   nickname: v.pipe(v.optional(v.string()), presence({ optionalProbability: 0.9 })),
+ *   // Never null
+ *   deletedAt: v.pipe(v.nullable(v.date()), presence({ nullProbability: 0 })),
+ * });
+ * ```
+ *
+ * @param probabilities - The probabilities to use for this schema
+ * @returns A metadata action that can be used in a Valibot pipe
+ */
+export function presence<TInput>(probabilities: PresenceProbabilities): v.MetadataAction<TInput, Record<string | symbol, unknown>> {
+  return v.metadata({
+    [PRESENCE_KEY]: probabilities
+  });
+}
+
+/**
+ * Resolves the presence probabilities of a schema, from its metadata first
+ * and from the generator options otherwise
+ *
+ * @param schema - The optional, nullable, nullish or undefinedable schema
+ * @param options - The resolved generator options
+ */
+export function getPresenceProbabilities(schema: any, options: ResolvedMockGeneratorOptions): Required<PresenceProbabilities> {
+  const metadata = v.getMetadata(schema) as Record<string | symbol, unknown>;
+  const overrides = (metadata[PRESENCE_KEY as keyof typeof metadata] ?? {}) as PresenceProbabilities;
+
+  return {
+    optionalProbability: overrides.optionalProbability ?? options.optionalProbability,
+    nullProbability: overrides.nullProbability ?? options.nullProbability,
+    undefinedProbability: overrides.undefinedProbability ?? options.undefinedProbability,
+  };
+}
+
+/**
+ * Draws one of several outcomes, each with its own probability, falling back
+ * to the last outcome for the remaining probability
+ *
+ * @param faker - The Faker instance to draw from
+ * @param probabilities - The probability of each outcome but the last
+ * @returns The index of the outcome
+ */
+export function drawOutcome(faker: Faker, probabilities: number[]): number {
+  let draw = faker.number.float({ min: 0, max: 1 });
+  for (let i = 0; i < probabilities.length; i++) {
+    draw -= probabilities[i]!;
+    if (draw < 0) return i;
+  }
+  return probabilities.length;
+}
@@ -0,0 +1,78 @@
+import type { GenerationContext, ResolvedMockGeneratorOptions } from "./types.ts";
+
+/**
+ * Returns the direct child schemas of a schema, without resolving lazy ones
+ *
+ * @param schema - The schema to inspect
+ * @returns The child schemas
+ */
+export function getChildSchemas(schema: any): any[] {
+  const children: any[] = [];
+  const add = (child: any) => {
+    if (child && typeof child === 'object' && child.kind === 'schema') {
+      children.push(child);
+    }
+  };
+
+  add(schema.wrapped);
+  add(schema.item);
+  add(schema.key);
+  add(schema.value);
+  add(schema.rest);
+  for (const child of Object.values(schema.entries ?? {})) add(child);
+  for (const child of schema.items ?? []) add(child);
+  for (const child of Array.isArray(schema.options) ? schema.options : []) add(child);
+  // Nested schemas of a pipe, e.g. `v.pipe(existingSchema, v.metadata(...))`
+  for (const child of schema.pipe ?? []) {
+    if (child !== schema) add(child);
+  }
+  return children;
+}
+
+const recursiveSchemas = new WeakMap<object, boolean>();
+
+/**
+ * Checks whether a schema can recurse, i.e. contains a lazy schema
+ *
+ * @param schema - The schema to inspect
+ */
+export function isRecursive(schema: any): boolean {
+  if (!schema || typeof schema !== 'object') return false;
+  if (schema.type === 'lazy') return true;
+
+  const known = recursiveSchemas.get(schema);
+  if (known !== undefined) return known;
+
+  // Assume no recursion while visiting, which stops on cyclic schema objects
+  recursiveSchemas.set(schema, false);
+  const recursive = getChildSchemas(schema).some(isRecursive);
+  recursiveSchemas.set(schema, recursive);
+  return recursive;
+}
+
+/**
+ * Checks whether generation must steer away from the given child schema,
+ * because the maximum depth is reached and the child can recurse further
+ *
+ * @param child - The child schema about to be generated
+ * @param context - The current generation context
+ * @param options - The resolved generator options
+ */
+export function shouldTerminate(child: any, context: GenerationContext, options: ResolvedMockGeneratorOptions): boolean {
+  return context.depth >= options.maxDepth && isRecursive(child);
+}
+
+/**
+ * Keeps the options of a union-like schema that cannot recurse once the
+ * maximum depth is reached, when there are some
+ *
+ * @param choices - The candidate schemas
+ * @param context - The current generation context
+ * @param options - The resolved generator options
+ * @returns The candidates to choose from
+ */
+export function terminatingChoices(choices: any[], context: GenerationContext, options: ResolvedMockGeneratorOptions): any[] {
+  if (context.depth < options.maxDepth) return choices;
+  const terminating = choices.filter((choice) => !isRecursive(choice));
+  return terminating.length > 0 ? terminating : choices;
+}
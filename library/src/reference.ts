@@ -0,0 +1,183 @@
+import * as v from "valibot";
+import type { Faker } from "@faker-js/faker";
+import type { GenerationContext, ResolvedMockGeneratorOptions, Session } from "./types.ts";
+import { drawInt } from "./boundary.ts";
+import { getChildSchemas } from "./recursion.ts";
+import { walkSchemaValue } from "./walk.ts";
+
+const IDENTIFIER_KEY = Symbol.for("identifier");
+const REFERENCE_KEY = Symbol.for("reference");
+
+/**
+ * Creates a session, shared by the generators whose references point at the
+ * entities of one another
+ *
+ * @example
+ * ```ts
+ * const session = createSession();
+ * const users = createMockGenerator(UserSchema, { session });
+ * const posts = createMockGenerator(PostSchema, { session });
+ * ```
+ */
+export function createSession(): Session {
+  return { references: new Map() };
+}
+
+/**
+ * Marks a field as the identifier of an entity. The identifiers of the values
+ * a generator returns are recorded, to be picked by `reference()` fields.
+ * They are kept as long as the generator, or its session, is.
+ *
+ * @example
+ * ```ts
+ * const UserSchema = v.object({
+ *   id: v.pipe(v.string(), v.uuid(), identifier("user")),
+ * });
+ * ```
+ *
+ * @param name - The name of the entity
+ * @returns A metadata action that can be used in a Valibot pipe
+ */
+export function identifier<TInput>(name: string): v.MetadataAction<TInput, Record<string | symbol, unknown>> {
+  return v.metadata({
+    [IDENTIFIER_KEY]: name
+  });
+}
+
+/**
+ * Marks a field as a reference to an entity: its value is picked among the
+ * identifiers of the entities generated so far, by the same generator or by
+ * the generators of the same session.
+ * Optional and nullable references are left empty while there is no entity
+ * to reference.
+ *
+ * @example
+ * ```ts
+ * const PostSchema = v.object({
+ *   authorId: v.pipe(v.string(), reference("user")),
+ * });
+ * ```
+ *
+ * @param name - The name of the referenced entity
+ * @returns A metadata action that can be used in a Valibot pipe
+ */
+export function reference<TInput>(name: string): v.MetadataAction<TInput, Record<string | symbol, unknown>> {
+  return v.metadata({
+    [REFERENCE_KEY]: name
+  });
+}
+
+/**
+ * Returns the name of the entity a schema is marked with, if any
+ */
+function getMarker(schema: any, key: symbol): string | null {
+  const metadata = v.getMetadata(schema) as Record<string | symbol, unknown>;
+  const name = metadata[key as keyof typeof metadata];
+  return typeof name === 'string' ? name : null;
+}
+
+/**
+ * Returns the name of the entity a schema references, if any
+ */
+export function getReference(schema: any): string | null {
+  return getMarker(schema, REFERENCE_KEY);
+}
+
+/**
+ * Picks the identifier of a generated entity
+ *
+ * @param name - The name of the referenced entity
+ * @param faker - The Faker instance to draw from
+ * @param context - The current generation context
+ * @param options - The resolved generator options
+ * @returns The identifier
+ */
+export function pickReference(name: string, faker: Faker, context: GenerationContext, options: ResolvedMockGeneratorOptions): unknown {
+  const identifiers = context.references.get(name) ?? [];
+  if (identifiers.length === 0) {
+    console.error(`No generated entity to reference at path "${context.path}":`, name);
+    throw new Error(`No generated ${name} to reference at path "${context.path}"`);
+  }
+  return identifiers[drawInt(faker, { min: 0, max: identifiers.length - 1 }, context, options)];
+}
+
+/**
+ * Entity names a schema marks, found without resolving lazy schemas
+ */
+export interface SchemaMarkers {
+  /** Names of the entities the schema identifies */
+  identifiers: Set<string>;
+  /** Names of the entities the schema references */
+  references: Set<string>;
+  /** Whether the schema contains lazy schemas, which may mark more names */
+  lazy: boolean;
+}
+
+/**
+ * Collects the entity names marked by `identifier()` and `reference()` in a
+ * schema and its child schemas
+ *
+ * @param schema - The schema to walk
+ * @returns The marked names
+ */
+export function getSchemaMarkers(schema: any): SchemaMarkers {
+  const markers: SchemaMarkers = { identifiers: new Set(), references: new Set(), lazy: false };
+  const visited = new Set<any>();
+  const visit = (schema: any) => {
+    if (visited.has(schema)) return;
+    visited.add(schema);
+    if (schema.type === 'lazy') markers.lazy = true;
+    const identifier = getMarker(schema, IDENTIFIER_KEY);
+    if (identifier !== null) markers.identifiers.add(identifier);
+    const reference = getReference(schema);
+    if (reference !== null) markers.references.add(reference);
+    getChildSchemas(schema).forEach(visit);
+  };
+  visit(schema);
+  return markers;
+}
+
+/**
+ * Checks whether a schema marks identifiers, assuming lazy schemas do as
+ * they cannot be resolved without a value
+ *
+ * @param schema - The schema to check
+ */
+export function hasIdentifiers(schema: any): boolean {
+  const markers = getSchemaMarkers(schema);
+  return markers.lazy || markers.identifiers.size > 0;
+}
+
+/**
+ * Checks whether a schema references an entity none of which was generated
+ * yet, e.g. the parent of the first node of a tree
+ *
+ * @param schema - The schema to check
+ * @param context - The current generation context
+ */
+export function lacksReferences(schema: any, context: GenerationContext): boolean {
+  const name = getReference(schema);
+  return name !== null && (context.references.get(name)?.length ?? 0) === 0;
+}
+
+/**
+ * Records the identifiers found in a generated value, walking the schema
+ * along the value
+ *
+ * @param schema - The schema of the value
+ * @param value - The generated value
+ * @param references - The identifiers of the generated entities, per entity name
+ */
+export function recordIdentifiers(schema: any, value: unknown, references: Map<string, unknown[]>): void {
+  walkSchemaValue(schema, value, (schema, value) => {
+    if (value === undefined || value === null) return;
+    const name = getMarker(schema, IDENTIFIER_KEY);
+    if (name === null) return;
+    const identifiers = references.get(name);
+    if (identifiers) {
+      identifiers.push(value);
+    } else {
+      references.set(name, [value]);
+    }
+  });
+}
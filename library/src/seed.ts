@@ -0,0 +1,30 @@
+import { Faker } from "@faker-js/faker";
+
+/**
+ * Derives a seed from a seed and a key, e.g. the path of a value, so that
+ * distinct keys get unrelated seeds
+ *
+ * @param seed - The seed to derive from
+ * @param key - The key to mix into the seed
+ * @returns A 32-bit unsigned integer seed
+ */
+export function deriveSeed(seed: number, key: string): number {
+  // FNV-1a over the seed and the key
+  let hash = 0x811c9dc5;
+  for (const char of `${seed}:${key}`) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a Faker instance with the locale definitions of another one and its
+ * own seed
+ *
+ * @param faker - The Faker instance to copy the locale definitions from
+ * @param seed - The seed of the new instance
+ */
+export function createSeededFaker(faker: Faker, seed: number): Faker {
+  return new Faker({ locale: faker.rawDefinitions, seed });
+}
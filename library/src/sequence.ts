@@ -0,0 +1,52 @@
+import type * as v from "valibot";
+import type { Faker } from "@faker-js/faker";
+import type { Sequences } from "./types.ts";
+import { fake } from "./fake.ts";
+
+/**
+ * Creates a set of named sequences, each one counting from 1
+ */
+export function createSequences(): Sequences {
+  let counters = new Map<string, number>();
+  return {
+    next: (name) => {
+      const value = (counters.get(name) ?? 0) + 1;
+      counters.set(name, value);
+      return value;
+    },
+    reset: (name) => {
+      if (name === undefined) {
+        counters.clear();
+      } else {
+        counters.delete(name);
+      }
+    },
+    snapshot: () => new Map(counters),
+    restore: (snapshot) => {
+      counters = new Map(snapshot);
+    },
+  };
+}
+
+/**
+ * Generates the values of a schema from a named sequence of the generator,
+ * shared by every schema using the same name.
+ *
+ * @example
+ * ```ts
+ * const UserSchema = v.object({
+ *   id: v.pipe(v.string(), sequence("user", (n) => `user-${n}`)),
+ *   rank: v.pipe(v.number(), sequence("rank")),
+ * });
+ * ```
+ *
+ * @param name - The name of the sequence
+ * @param format - Builds the value from the sequence number, the number itself by default
+ * @returns A metadata action that can be used in a Valibot pipe
+ */
+export function sequence<TInput>(
+  name: string,
+  format: (value: number, faker: Faker) => unknown = (value) => value,
+): v.MetadataAction<TInput, Record<string | symbol, unknown>> {
+  return fake((faker, context) => format(context.sequences.next(name), faker));
+}
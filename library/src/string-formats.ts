@@ -0,0 +1,302 @@
+import type { Faker } from "@faker-js/faker";
+import type { DateRange } from "./date.ts";
+import { generateDate, isoFormats } from "./date.ts";
+
+/**
+ * Generator for a string format validated by a Valibot action
+ *
+ * @param faker - The Faker instance to draw from
+ * @param minLength - Minimum length required by the schema
+ * @param maxLength - Maximum length allowed by the schema, `Infinity` when unbounded
+ * @param dateRange - Range allowed by the schema, for formats backed by dates
+ * @returns A string matching the format
+ */
+export type StringFormatGenerator = (faker: Faker, minLength: number, maxLength: number, dateRange: DateRange) => string;
+
+const LOWER_ALPHANUMERIC = "abcdefghijklmnopqrstuvwxyz0123456789";
+const HEX_DIGITS = "0123456789abcdef";
+
+/**
+ * Picks a length within the schema bounds, as close as possible to the
+ * natural length range of a format. The schema bounds always win.
+ */
+function pickLength(faker: Faker, minLength: number, maxLength: number, natural: [number, number]): number {
+  const min = Math.max(minLength, natural[0]);
+  const max = Math.min(maxLength, natural[1]);
+  if (min <= max) {
+    return faker.number.int({ min, max });
+  }
+  return natural[0] > maxLength ? maxLength : minLength;
+}
+
+/**
+ * Picks one of the fixed lengths a format supports, preferring those within
+ * the schema bounds
+ */
+function pickFixedLength(faker: Faker, minLength: number, maxLength: number, lengths: number[]): number {
+  const fitting = lengths.filter((length) => length >= minLength && length <= maxLength);
+  const pool = fitting.length > 0 ? fitting : lengths;
+  return pool[faker.number.int({ min: 0, max: pool.length - 1 })]!;
+}
+
+/**
+ * Keeps a realistic value when it fits the schema bounds, otherwise builds a
+ * synthetic one of a fitting length
+ */
+function fitOrBuild(
+  value: string,
+  minLength: number,
+  maxLength: number,
+  build: (length: number) => string,
+  faker: Faker,
+  natural: [number, number],
+): string {
+  if (value.length >= minLength && value.length <= maxLength) {
+    return value;
+  }
+  return build(pickLength(faker, minLength, maxLength, natural));
+}
+
+function fromCharacters(faker: Faker, characters: string, length: number): string {
+  return faker.string.fromCharacters(characters, Math.max(0, length));
+}
+
+/**
+ * Computes the Luhn check digit of a string of digits
+ */
+function luhnCheckDigit(digits: string): string {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+function buildEmail(faker: Faker, length: number): string {
+  // "a@b.co" is the shortest valid address
+  const target = Math.max(length, 6);
+  const domainLength = Math.min(8, Math.max(1, Math.floor((target - 4) / 2)));
+  const localLength = target - domainLength - 4;
+  return `${fromCharacters(faker, LOWER_ALPHANUMERIC, localLength)}@${
+    fromCharacters(faker, LOWER_ALPHANUMERIC, domainLength)
+  }.co`;
+}
+
+function buildUrl(faker: Faker, length: number): string {
+  // "https://a.co" is the shortest generated url
+  const target = Math.max(length, 12);
+  return `https://${fromCharacters(faker, LOWER_ALPHANUMERIC, target - 11)}.co`;
+}
+
+function hexGroups(faker: Faker, groups: number, size: number, separator: string): string {
+  return Array.from({ length: groups }, () => fromCharacters(faker, HEX_DIGITS, size)).join(separator);
+}
+
+/**
+ * Builds a MAC address among the given variants, preferring one fitting the bounds
+ */
+function buildMac(
+  faker: Faker,
+  minLength: number,
+  maxLength: number,
+  variants: Array<[groups: number, size: number, separator: string]>,
+): string {
+  const lengths = variants.map(([groups, size]) => groups * (size + 1) - 1);
+  const length = pickFixedLength(faker, minLength, maxLength, lengths);
+  const candidates = variants.filter((_variant, index) => lengths[index] === length);
+  const [groups, size, separator] = candidates[faker.number.int({ min: 0, max: candidates.length - 1 })]!;
+  return hexGroups(faker, groups, size, separator);
+}
+
+/**
+ * Splits a number of characters into groups of 1 to `size` characters
+ */
+function splitGroups(faker: Faker, total: number, groups: number, size: number): number[] {
+  const sizes = Array.from({ length: groups }, () => 1);
+  for (let rest = total - groups; rest > 0; rest--) {
+    const growable = sizes.flatMap((groupSize, index) => groupSize < size ? [index] : []);
+    if (growable.length === 0) break;
+    sizes[growable[faker.number.int({ min: 0, max: growable.length - 1 })]!]! += 1;
+  }
+  return sizes;
+}
+
+function buildIpv4(faker: Faker, length: number): string {
+  // "0.0.0.0" to "255.255.255.255"
+  const target = Math.min(15, Math.max(7, length));
+  return splitGroups(faker, target - 3, 4, 3)
+    .map((digits) => String(faker.number.int({ min: digits === 1 ? 0 : 10 ** (digits - 1), max: digits === 3 ? 255 : 10 ** digits - 1 })))
+    .join(".");
+}
+
+function buildIpv6(faker: Faker, length: number): string {
+  // "::" to eight groups of four digits
+  const target = Math.min(39, Math.max(2, length));
+  if (target >= 15) {
+    return splitGroups(faker, target - 7, 8, 4).map((size) => fromCharacters(faker, HEX_DIGITS, size)).join(":");
+  }
+  if (target === 2) {
+    return "::";
+  }
+  // Compressed form with its groups after "::", e.g. "::1" or "::ab:cd"
+  const groups = Math.max(1, Math.ceil((target - 1) / 5));
+  return `::${splitGroups(faker, target - 1 - groups, groups, 4).map((size) => fromCharacters(faker, HEX_DIGITS, size)).join(":")}`;
+}
+
+const MAC48_VARIANTS: Array<[number, number, string]> = [[6, 2, ":"], [6, 2, "-"], [3, 4, "."]];
+const MAC64_VARIANTS: Array<[number, number, string]> = [[8, 2, ":"], [8, 2, "-"], [4, 4, "."], [4, 4, ":"]];
+
+/**
+ * Builds the generator of an ISO format, drawing a date within the schema range
+ */
+function isoFormat(type: string): StringFormatGenerator {
+  return (faker, _minLength, _maxLength, dateRange) => isoFormats[type]!.format(generateDate(dateRange, faker));
+}
+
+/**
+ * Generators for the string validation actions of Valibot, keyed by action type.
+ * Each one produces a valid value directly and honours the length bounds
+ * whenever the format allows it.
+ */
+export const stringFormats: Record<string, StringFormatGenerator> = {
+  'email': (faker, minLength, maxLength) =>
+    fitOrBuild(faker.internet.email().toLowerCase(), minLength, maxLength, (length) => buildEmail(faker, length), faker, [10, 30]),
+
+  'rfc_email': (faker, minLength, maxLength) =>
+    fitOrBuild(faker.internet.email().toLowerCase(), minLength, maxLength, (length) => buildEmail(faker, length), faker, [10, 30]),
+
+  'url': (faker, minLength, maxLength) =>
+    fitOrBuild(faker.internet.url(), minLength, maxLength, (length) => buildUrl(faker, length), faker, [15, 40]),
+
+  'uuid': (faker) => faker.string.uuid(),
+
+  'ip': (faker, minLength, maxLength) => {
+    // IPv6 addresses also cover the lengths IPv4 ones cannot have
+    const ipv4 = minLength <= 15 && maxLength >= 7 && faker.datatype.boolean();
+    return ipv4
+      ? fitOrBuild(faker.internet.ipv4(), minLength, maxLength, (length) => buildIpv4(faker, length), faker, [7, 15])
+      : fitOrBuild(faker.internet.ipv6(), minLength, maxLength, (length) => buildIpv6(faker, length), faker, [2, 39]);
+  },
+
+  'ipv4': (faker, minLength, maxLength) =>
+    fitOrBuild(faker.internet.ipv4(), minLength, maxLength, (length) => buildIpv4(faker, length), faker, [7, 15]),
+
+  'ipv6': (faker, minLength, maxLength) =>
+    fitOrBuild(faker.internet.ipv6(), minLength, maxLength, (length) => buildIpv6(faker, length), faker, [2, 39]),
+
+  'cuid2': (faker, minLength, maxLength) => {
+    const length = Math.max(1, pickLength(faker, minLength, maxLength, [24, 24]));
+    return fromCharacters(faker, "abcdefghijklmnopqrstuvwxyz", 1) + fromCharacters(faker, LOWER_ALPHANUMERIC, length - 1);
+  },
+
+  'ulid': (faker) => faker.string.ulid(),
+
+  'nanoid': (faker, minLength, maxLength) =>
+    faker.string.nanoid(Math.max(1, pickLength(faker, minLength, maxLength, [21, 21]))),
+
+  'hex_color': (faker, minLength, maxLength) => {
+    const length = pickFixedLength(faker, minLength, maxLength, [4, 5, 7, 9]);
+    return `#${faker.string.hexadecimal({ length: length - 1, casing: "mixed", prefix: "" })}`;
+  },
+
+  'base64': (faker, minLength, maxLength) => {
+    // Encoded strings are made of blocks of 4 characters
+    const blocks = Math.max(1, pickLength(faker, Math.ceil(minLength / 4), Math.floor(maxLength / 4), [2, 8]));
+    const byteCount = blocks * 3 - faker.number.int({ min: 0, max: 2 });
+    const bytes = Array.from({ length: byteCount }, () => String.fromCharCode(faker.number.int({ min: 0, max: 255 })));
+    return btoa(bytes.join(""));
+  },
+
+  'emoji': (faker, minLength, maxLength) => {
+    // Emoticons are presentation emojis of two UTF-16 code units each
+    const count = Math.max(1, Math.floor(pickLength(faker, minLength, maxLength, [2, 6]) / 2));
+    return Array.from({ length: count }, () => String.fromCodePoint(faker.number.int({ min: 0x1F600, max: 0x1F64F }))).join("");
+  },
+
+  'mac': (faker, minLength, maxLength) => buildMac(faker, minLength, maxLength, [...MAC48_VARIANTS, ...MAC64_VARIANTS]),
+
+  'mac48': (faker, minLength, maxLength) => buildMac(faker, minLength, maxLength, MAC48_VARIANTS),
+
+  'mac64': (faker, minLength, maxLength) => buildMac(faker, minLength, maxLength, MAC64_VARIANTS),
+
+  'iso_date': isoFormat('iso_date'),
+
+  'iso_date_time': isoFormat('iso_date_time'),
+
+  'iso_time': isoFormat('iso_time'),
+
+  'iso_time_second': isoFormat('iso_time_second'),
+
+  'iso_timestamp': isoFormat('iso_timestamp'),
+
+  'iso_week': isoFormat('iso_week'),
+
+  'credit_card': (faker, minLength, maxLength) => {
+    // Visa numbers, accepted with 16 to 19 digits
+    const length = pickFixedLength(faker, minLength, maxLength, [16, 17, 18, 19]);
+    const body = `4${faker.string.numeric(length - 2)}`;
+    return body + luhnCheckDigit(body);
+  },
+
+  'imei': (faker, minLength, maxLength) => {
+    const body = faker.string.numeric(14);
+    const imei = body + luhnCheckDigit(body);
+    if (pickFixedLength(faker, minLength, maxLength, [15, 18]) === 15) {
+      return imei;
+    }
+    return `${imei.slice(0, 2)}-${imei.slice(2, 8)}-${imei.slice(8, 14)}-${imei.slice(14)}`;
+  },
+
+  'bic': (faker, minLength, maxLength) => {
+    const length = pickFixedLength(faker, minLength, maxLength, [8, 11]);
+    const location = faker.string.alphanumeric({ length: 2, casing: "upper" });
+    return faker.string.alpha({ length: 6, casing: "upper" }) +
+      (location === "00" ? "0A" : location) +
+      faker.string.alphanumeric({ length: length - 8, casing: "upper" });
+  },
+
+  'digits': (faker, minLength, maxLength) =>
+    faker.string.numeric({ length: Math.max(1, pickLength(faker, minLength, maxLength, [1, 10])), allowLeadingZeros: true }),
+
+  'hexadecimal': (faker, minLength, maxLength) =>
+    faker.string.hexadecimal({ length: Math.max(1, pickLength(faker, minLength, maxLength, [1, 16])), casing: "mixed", prefix: "" }),
+
+  'octal': (faker, minLength, maxLength) =>
+    faker.string.octal({ length: Math.max(1, pickLength(faker, minLength, maxLength, [1, 12])), prefix: "" }),
+
+  'decimal': (faker, minLength, maxLength) => {
+    const length = Math.max(1, pickLength(faker, minLength, maxLength, [1, 10]));
+    if (length < 3) {
+      return faker.string.numeric({ length, allowLeadingZeros: true });
+    }
+    const integerLength = faker.number.int({ min: 1, max: length - 2 });
+    return `${faker.string.numeric({ length: integerLength, allowLeadingZeros: true })}.${
+      faker.string.numeric({ length: length - integerLength - 1, allowLeadingZeros: true })
+    }`;
+  },
+
+  'slug': (faker, minLength, maxLength) =>
+    fitOrBuild(
+      faker.lorem.slug(faker.number.int({ min: 1, max: 3 })).toLowerCase(),
+      minLength,
+      maxLength,
+      (length) => fromCharacters(faker, LOWER_ALPHANUMERIC, Math.max(1, length)),
+      faker,
+      [5, 30],
+    ),
+};
+
+/**
+ * Returns the first format action of a string schema pipe having a dedicated generator
+ *
+ * @param schema - The string schema
+ * @returns The format action type, or `null` when there is none
+ */
+export function getStringFormat(schema: any): string | null {
+  return schema.pipe?.find((pipe: any) => Object.hasOwn(stringFormats, pipe?.type))?.type ?? null;
+}
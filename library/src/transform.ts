@@ -0,0 +1,85 @@
+import * as v from "valibot";
+
+/**
+ * Transformations changing the value so that the actions after them no longer
+ * describe the input. Transformations keeping the value shape (`trim`,
+ * `toLowerCase`, `brand`...) are left in the pipe.
+ */
+const VALUE_CHANGING_TRANSFORMATIONS = [
+  'transform',
+  'raw_transform',
+  'parse_json',
+  'stringify_json',
+  'map_items',
+  'reduce_items',
+  'find_item',
+  'to_number',
+  'to_bigint',
+  'to_boolean',
+  'to_date',
+  'to_string',
+];
+
+/**
+ * Schemas of the value returned by a transformation, when the pipe does not
+ * continue with a schema
+ */
+const transformationOutputs: Record<string, () => any> = {
+  parse_json: () => v.unknown(),
+  to_number: () => v.number(),
+  to_bigint: () => v.bigint(),
+  to_date: () => v.date(),
+};
+
+/**
+ * Builds the string input of a transformation from a value of its output,
+ * for transformations that can be inverted
+ */
+const inverseTransformations: Record<string, (output: any) => string> = {
+  parse_json: (output) => JSON.stringify(output),
+  to_number: (output) => String(output),
+  to_bigint: (output) => String(output),
+  to_date: (output) => output.toISOString(),
+};
+
+/**
+ * A pipe split at its first value-changing transformation
+ */
+export interface TransformationSplit {
+  /** The schema with the actions applying before the transformation */
+  input: any;
+  /** The transformation action */
+  transformation: any;
+  /** Builds the input of the transformation from a value of its output, when it can be inverted */
+  invert: ((output: unknown) => unknown) | null;
+  /** The schema the transformed value must satisfy, when it can be inferred */
+  output: any | null;
+}
+
+/**
+ * Splits a piped schema at its first value-changing transformation
+ *
+ * @param schema - The schema with its pipe flattened, base schema first
+ * @returns The split pipe, or `null` when the pipe does not transform its value
+ */
+export function splitTransformation(schema: any): TransformationSplit | null {
+  if (!Array.isArray(schema.pipe)) return null;
+
+  const index = schema.pipe.findIndex((item: any, index: number) =>
+    index > 0 && item?.kind === 'transformation' && VALUE_CHANGING_TRANSFORMATIONS.includes(item.type)
+  );
+  if (index === -1) return null;
+
+  const transformation = schema.pipe[index];
+  const rest = schema.pipe.slice(index + 1);
+  const [head, ...actions] = rest[0]?.kind === 'schema' ? rest : [transformationOutputs[transformation.type]?.(), ...rest];
+  const output = head ? (actions.length > 0 ? (v.pipe as any)(head, ...actions) : head) : null;
+  const invert = schema.type === 'string' ? inverseTransformations[transformation.type] ?? null : null;
+
+  return {
+    input: { ...schema, pipe: schema.pipe.slice(0, index) },
+    transformation,
+    invert,
+    output,
+  };
+}
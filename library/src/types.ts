@@ -1,5 +1,7 @@
 import type * as v from "valibot";
 import type { LocaleDefinition, Faker, Randomizer } from "@faker-js/faker";
+import type { DateRange } from "./date.ts";
+import type { DiscriminatorWeights } from "./variant.ts";
 
 /**
  * Configuration for the mock generator
@@ -31,6 +33,126 @@ export interface MockGeneratorOptions {
    * @default 1048575 (2^20 - 1)
    */
   defaultStringMaxLength?: number;
+
+  /**
+   * Default window for generated dates, used for the bounds a date schema
+   * (or ISO date string schema) does not constrain
+   * @default The year before now
+   */
+  defaultDateRange?: {
+    min?: Date;
+    max?: Date;
+  };
+
+  /**
+   * Generation mode: `'random'` draws values uniformly, `'boundary'` draws
+   * the edges of every constraint (min/max lengths and values, empty and
+   * full collections, first/last options, absent and present optionals)
+   * @default 'random'
+   */
+  mode?: GenerationMode;
+
+  /**
+   * Session shared with other generators: `reference()` fields pick the
+   * identifiers of the entities generated by any generator of the session.
+   * Without a session, they pick the entities of this generator.
+   */
+  session?: Session;
+
+  /**
+   * Derive the randomness of every value from the seed and the path of the
+   * value (array indexes included), instead of drawing from a single Faker
+   * instance. Adding, removing or reordering fields then keeps the values of
+   * the other fields.
+   * @default false
+   */
+  seedByPath?: boolean;
+
+  /**
+   * Maximum recursion depth of lazy schemas. Once reached, generation favours
+   * branches that stop the recursion: absent optionals, null nullables,
+   * empty collections and non-recursive union members.
+   * @default 3
+   */
+  maxDepth?: number;
+
+  /**
+   * Probability that `optional` values are present
+   * @default 0.5
+   */
+  optionalProbability?: number;
+
+  /**
+   * Probability that `nullable` and `nullish` values are `null`
+   * @default 0.2
+   */
+  nullProbability?: number;
+
+  /**
+   * Probability that `undefinedable` and `nullish` values are `undefined`
+   * @default 0.2
+   */
+  undefinedProbability?: number;
+
+  /**
+   * Discriminator values of variant schemas, per discriminator key. A list pins
+   * the key to these values, e.g. `{ type: ['card'] }`, while a map weights
+   * them, e.g. `{ type: { card: 3, bank: 1 } }`.
+   */
+  discriminators?: Record<string, DiscriminatorWeights>;
+
+  /**
+   * Number of entries of records without entry count constraints
+   * @default { min: 1, max: 5 }
+   */
+  defaultRecordEntries?: {
+    min?: number;
+    max?: number;
+  };
+
+  /**
+   * Number of entries of maps without size constraints
+   * @default { min: 0, max: 5 }
+   */
+  defaultMapSize?: {
+    min?: number;
+    max?: number;
+  };
+
+  /**
+   * Number of values of sets without size constraints
+   * @default { min: 0, max: 5 }
+   */
+  defaultSetSize?: {
+    min?: number;
+    max?: number;
+  };
+
+  /**
+   * Number of extra properties added to loose objects and objects with rest.
+   * The maximum is raised to the minimum, e.g. `{ min: 5 }` adds 5 properties.
+   * @default { min: 0, max: 3 }
+   */
+  extraProperties?: {
+    min?: number;
+    max?: number;
+  };
+
+  /**
+   * Number of extra trailing items added to loose tuples and tuples with rest.
+   * The maximum is raised to the minimum, e.g. `{ min: 5 }` adds 5 items.
+   * @default { min: 0, max: 3 }
+   */
+  extraItems?: {
+    min?: number;
+    max?: number;
+  };
+
+  /**
+   * Handlers for custom schema types, or overriding the built-in ones.
+   * They take precedence over handlers registered with `registerHandler`.
+   */
+  handlers?: Record<string, SchemaHandler>;
 }
 
 /**
@@ -41,30 +163,332 @@ export interface ResolvedMockGeneratorOptions {
   maxAttempts: number;
   defaultArrayMaxLength: number;
   defaultStringMaxLength: number;
+  defaultDateRange: DateRange;
+  mode: GenerationMode;
+  maxDepth: number;
+  seedByPath: boolean;
+  discriminators: Record<string, DiscriminatorWeights>;
+  optionalProbability: number;
+  nullProbability: number;
+  undefinedProbability: number;
+  defaultRecordEntries: { min: number; max: number };
+  defaultMapSize: { min: number; max: number };
+  defaultSetSize: { min: number; max: number };
+  extraProperties: { min: number; max: number };
+  extraItems: { min: number; max: number };
+  handlers: Record<string, ResolvedSchemaHandler>;
 }
 
 /**
  * Shared generation context between handlers
  */
 export interface GenerationContext {
+  /** Number of lazy schemas resolved along the current path */
   depth: number;
-  path: string[];
-  references: Map<string, unknown>;
+  /** Path of the value being generated, e.g. `users[0].email` */
+  path: string;
+  /** Identifiers of the generated entities, per entity name */
+  references: Map<string, unknown[]>;
+  /** Named sequences of the generator, kept across generated values */
+  sequences: Sequences;
+  /** Whether the value is generated by `generateAsync()` */
+  async?: boolean;
+  /** Edge every draw takes, when generating boundary values */
+  edge?: BoundaryEdge | null;
+  /** Seed the randomness of each path derives from, when seeding by path */
+  seed?: number;
+  /** Path the Faker instance was last seeded for */
+  seededPath?: string;
+}
+
+/**
+ * State shared by generators, so that their references point at the
+ * entities of one another
+ */
+export interface Session {
+  /** Identifiers of the generated entities, per entity name */
+  references: Map<string, unknown[]>;
+}
+
+/**
+ * Named counters of a generator, e.g. for `user-1`, `user-2`... identifiers
+ */
+export interface Sequences {
+  /**
+   * Increments a sequence and returns its new value, starting at 1
+   */
+  next(name: string): number;
+
+  /**
+   * Restarts a sequence, or every sequence when no name is given
+   */
+  reset(name?: string): void;
+
+  /**
+   * Returns the current value of every sequence, to restore them when the
+   * values drawn from them are discarded
+   */
+  snapshot(): Map<string, number>;
+
+  /**
+   * Restores the sequences to a snapshot
+   */
+  restore(snapshot: Map<string, number>): void;
+}
+
+/**
+ * Handler generating a value for a given schema type
+ *
+ * @param schema - The schema to generate a value for
+ * @param faker - The Faker instance of the generator
+ * @param context - The current generation context
+ * @param options - The resolved generator options
+ * @param next - The handler being overridden, if any
+ * @returns The generated value, or `VOID` for an absent value
+ */
+export type SchemaHandler = (
+  schema: any,
+  faker: Faker,
+  context: GenerationContext,
+  options: ResolvedMockGeneratorOptions,
+  next?: ResolvedSchemaHandler,
+) => unknown;
+
+/**
+ * Schema handler bound to the handler it overrides
+ */
+export type ResolvedSchemaHandler = (
+  schema: any,
+  faker: Faker,
+  context: GenerationContext,
+  options: ResolvedMockGeneratorOptions,
+) => unknown;
+
+/**
+ * How values are drawn within the constraints of their schema
+ */
+export type GenerationMode = 'random' | 'boundary';
+
+/**
+ * Edge of a constraint: the lowest or the highest allowed value
+ */
+export type BoundaryEdge = 'min' | 'max';
+
+/**
+ * Presence probabilities of a single schema, set with `presence()`
+ */
+export type PresenceProbabilities = Pick<MockGeneratorOptions, 'optionalProbability' | 'nullProbability' | 'undefinedProbability'>;
+
+/**
+ * Constraint to violate with `generateInvalid()`
+ */
+export interface InvalidTarget {
+  /** Path of the value to make invalid, e.g. `users[0].email` (`''` for the root value) */
+  path?: string;
+  /** Type of the schema or pipe action to violate, e.g. `'max_length'`, `'email'` or `'string'` */
+  type?: string;
+}
+
+/**
+ * A value violating exactly one constraint of its schema
+ */
+export interface InvalidValue {
+  /** The invalid value */
+  value: unknown;
+  /** Path of the violated constraint */
+  path: string;
+  /** The issue Valibot reports for the value */
+  issue: v.BaseIssue<unknown>;
+}
+
+/**
+ * Function computing the value of an overridden field
+ *
+ * @param faker - The Faker instance of the generator
+ * @param context - The path of the field, the index of the value in
+ * `generateMany()` and the value generated for the field
+ */
+export type OverrideFn<T> = (faker: Faker, context: { path: string; index: number; value: T | undefined }) => T;
+
+/**
+ * Values forced by `generate()` and `generateMany()`: a deep partial of the
+ * output, where each field is a value or a function computing it. Plain
+ * objects are merged with the generated value, other values replace it.
+ */
+export type Overrides<T> = OverrideValue<T> | OverrideFn<T>;
+
+/**
+ * Value of an override, a deep partial of plain objects
+ */
+type OverrideValue<T> = T extends Date | Map<unknown, unknown> | Set<unknown> | readonly unknown[] ? T
+  : T extends Record<string, unknown> ? { [K in keyof T]?: Overrides<T[K]> }
+  : T;
+
+/**
+ * Configuration for `defineFactory()`
+ */
+export interface FactoryOptions<TSchema extends v.GenericSchema, TTrait extends string> extends MockGeneratorOptions {
+  /**
+   * Named overrides, combined by `build()`, e.g.
+   * `{ admin: { role: 'admin' }, suspended: { status: 'suspended' } }`
+   */
+  traits?: Record<TTrait, Overrides<v.InferOutput<TSchema>>>;
+}
+
+/**
+ * Factory building values of a schema from named traits
+ */
+export interface Factory<TSchema extends v.GenericSchema, TTrait extends string> {
+  /**
+   * Build a value with the given traits, or overrides, applied in order:
+   * later ones take precedence. Throws when the result fails the schema.
+   */
+  build(...traits: Array<TTrait | Overrides<v.InferOutput<TSchema>>>): v.InferOutput<TSchema>;
+
+  /**
+   * Build multiple values with the given traits, or overrides
+   */
+  buildMany(count: number, ...traits: Array<TTrait | Overrides<v.InferOutput<TSchema>>>): v.InferOutput<TSchema>[];
+
+  /**
+   * The generator the values are built with
+   */
+  generator: MockGenerator<TSchema>;
+}
+
+/**
+ * Relationship of a field to the entities of another collection of a dataset
+ */
+export interface DatasetRelation {
+  /** Name of the referenced collection */
+  to: string;
+  /**
+   * Field of the referenced entities the relation stores
+   * @default 'id'
+   */
+  key?: string;
+  /**
+   * Number of distinct keys stored in an array, for many-to-many relations.
+   * Without it, the field stores the key of a single entity.
+   * @default { min: 0, max: the number of referenced entities }
+   */
+  many?: {
+    min?: number;
+    max?: number;
+  };
+}
+
+/**
+ * Collection of a dataset: a schema, a number of entities and the
+ * relationships of its fields
+ */
+export interface DatasetCollection<TSchema extends v.GenericSchema = v.GenericSchema> {
+  /** Schema of the entities */
+  schema: TSchema;
+  /** Number of entities to generate */
+  count: number;
+  /**
+   * Relationships per field path, e.g. `{ authorId: { to: 'users' } }`
+   */
+  relations?: Record<string, DatasetRelation>;
+}
+
+/**
+ * Entities of a dataset, per collection name
+ */
+export type Dataset<TCollections extends Record<string, DatasetCollection>> = {
+  [K in keyof TCollections]: v.InferOutput<TCollections[K]['schema']>[];
+};
+
+/**
+ * Configuration for `createArbitrary()`
+ */
+export interface ArbitraryOptions extends Omit<MockGeneratorOptions, 'faker' | 'seedByPath' | 'session'> {
+  /**
+   * Faker locale(s) of the generated values
+   * @default en
+   */
+  locale?: LocaleDefinition | LocaleDefinition[];
+
+  /**
+   * Maximum number of random draws recorded per value. Draws past this
+   * number take the lowest value.
+   * @default 1000
+   */
+  maxChoices?: number;
 }
 
 /**
  * Main interface for the mock generator
  */
-export interface MockGenerator<TSchema extends v.GenericSchema> {
+export interface MockGenerator<TSchema extends v.GenericSchema | v.GenericSchemaAsync> {
   /**
-   * Generate a single mocked value based on the schema
+   * Generate a single mocked value based on the schema, with the given
+   * fields forced. Throws when the overridden value fails the schema.
    */
-  generate(): v.InferOutput<TSchema>;
+  generate(overrides?: Overrides<v.InferOutput<TSchema>>): v.InferOutput<TSchema>;
   
   /**
-   * Generate multiple mocked values
+   * Generate multiple mocked values, with the given fields forced
+   */
+  generateMany(count: number, overrides?: Overrides<v.InferOutput<TSchema>>): v.InferOutput<TSchema>[];
+
+  /**
+   * Generate a single raw value passing the schema, before its transformations
+   * are applied, e.g. the string of `v.pipe(v.string(), v.decimal(), v.transform(Number))`
+   */
+  generateInput(): v.InferInput<TSchema>;
+
+  /**
+   * Generate multiple raw values passing the schema
+   */
+  generateManyInput(count: number): v.InferInput<TSchema>[];
+
+  /**
+   * Generate the boundary values of the schema: a value where every draw
+   * takes its lowest edge (min lengths and values, empty collections, first
+   * options, absent optionals), then one where every draw takes its highest
+   * edge
+   */
+  generateBoundaries(): v.InferOutput<TSchema>[];
+
+  /**
+   * Generate a raw value violating exactly one constraint of the schema, the
+   * targeted one when given, along with the issue it raises
+   */
+  generateInvalid(target?: InvalidTarget): InvalidValue;
+
+  /**
+   * Generate every distinct valid value of a finite schema, made of literals,
+   * booleans, picklists, enums, optionals, unions and closed objects or tuples.
+   * Throws for schemas without a finite set of values.
+   */
+  generateAll(): v.InferOutput<TSchema>[];
+
+  /**
+   * Estimate the number of distinct values of the schema, `Infinity` when
+   * unbounded. Pipe actions that cannot be counted are ignored, so the
+   * estimate is an upper bound.
+   */
+  estimateCardinality(): number;
+
+  /**
+   * Restart a named sequence of the generator, or all of them, so that the
+   * next values start at 1 again
+   */
+  resetSequences(name?: string): void;
+
+  /**
+   * Generate a single mocked value, awaiting async `fake()` generators and
+   * validating with async schemas (`objectAsync`, `pipeAsync`, `checkAsync`...).
+   * The whole value is generated again when the async validation fails.
+   */
+  generateAsync(): Promise<v.InferOutput<TSchema>>;
+
+  /**
+   * Generate multiple mocked values asynchronously, one after the other
    */
-  generateMany(count: number): v.InferOutput<TSchema>[];
+  generateManyAsync(count: number): Promise<v.InferOutput<TSchema>[]>;
 }
 
 /**
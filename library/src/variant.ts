@@ -0,0 +1,116 @@
+import type { Faker } from "@faker-js/faker";
+
+/**
+ * Discriminator values allowed for a variant key: either the list of values to
+ * pin, or a weight per value. Values missing from a weight map keep a weight
+ * of 1, values missing from a list are never generated.
+ */
+export type DiscriminatorWeights = unknown[] | Record<string, number>;
+
+/**
+ * A branch of a variant schema, with its allowed value per discriminator key
+ */
+export interface VariantBranch {
+  /** The object schema of the branch */
+  schema: any;
+  /** Allowed discriminator values chosen for the configured keys */
+  values: Record<string, unknown[]>;
+  /** Weight of each allowed value, per configured key */
+  weights: Record<string, number[]>;
+  /** Weight of the branch, the product of its per-key weights */
+  weight: number;
+}
+
+/**
+ * Returns the values a discriminator entry schema accepts, or `null` when
+ * they cannot be enumerated
+ *
+ * @param schema - The entry schema of the discriminator key
+ */
+export function getDiscriminatorValues(schema: any): unknown[] | null {
+  switch (schema?.type) {
+    case 'literal':
+      return [schema.literal];
+    case 'picklist':
+    case 'enum':
+      return [...schema.options];
+    case 'union': {
+      const values = schema.options.map(getDiscriminatorValues);
+      return values.includes(null) ? null : values.flat();
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Flattens a variant schema into its object branches, descending into nested
+ * variants whether they share the discriminator key or use another one
+ *
+ * @param schema - The variant schema
+ * @returns The object schemas of every branch
+ */
+export function getVariantBranches(schema: any): any[] {
+  return schema.options.flatMap((option: any) => option.type === 'variant' ? getVariantBranches(option) : [option]);
+}
+
+/**
+ * Weighs a single discriminator value
+ */
+function weighValue(value: unknown, weights: DiscriminatorWeights): number {
+  if (Array.isArray(weights)) {
+    return weights.includes(value) ? 1 : 0;
+  }
+  return Object.hasOwn(weights, String(value)) ? weights[String(value)]! : 1;
+}
+
+/**
+ * Resolves the branches of a variant schema that can satisfy the configured
+ * discriminator weights, with the allowed values of each configured key
+ *
+ * @param schema - The variant schema
+ * @param discriminators - The discriminator weights, per key
+ * @returns The branches with a positive weight
+ */
+export function getWeightedBranches(schema: any, discriminators: Record<string, DiscriminatorWeights>): VariantBranch[] {
+  const branches: VariantBranch[] = [];
+
+  for (const branchSchema of getVariantBranches(schema)) {
+    const branch: VariantBranch = { schema: branchSchema, values: {}, weights: {}, weight: 1 };
+
+    for (const [key, weights] of Object.entries(discriminators)) {
+      const entry = branchSchema.entries?.[key];
+      if (!entry) continue;
+      const values = getDiscriminatorValues(entry);
+      if (!values) continue;
+
+      const valueWeights = values.map((value) => weighValue(value, weights));
+      branch.values[key] = values.filter((_value, index) => valueWeights[index]! > 0);
+      branch.weights[key] = valueWeights.filter((weight) => weight > 0);
+      branch.weight *= valueWeights.reduce((sum, weight) => sum + weight, 0);
+    }
+
+    if (branch.weight > 0) {
+      branches.push(branch);
+    }
+  }
+
+  return branches;
+}
+
+/**
+ * Picks an item with a probability proportional to its weight
+ *
+ * @param items - The items to pick from
+ * @param weights - The positive weight of each item
+ * @param faker - The Faker instance to draw from
+ */
+export function pickWeighted<T>(items: T[], weights: number[], faker: Faker): T {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let draw = faker.number.float({ min: 0, max: total });
+  for (let i = 0; i < items.length - 1; i++) {
+    draw -= weights[i]!;
+    if (draw < 0) return items[i]!;
+  }
+  return items[items.length - 1]!;
+}
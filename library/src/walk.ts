@@ -0,0 +1,98 @@
+import * as v from "valibot";
+import { entryPath, itemPath } from "./path.ts";
+import { getVariantBranches } from "./variant.ts";
+
+export const OBJECT_TYPES = ['object', 'loose_object', 'strict_object', 'object_with_rest'];
+export const WRAPPER_TYPES = ['optional', 'exact_optional', 'nullable', 'nullish', 'undefinedable', 'non_optional', 'non_nullable', 'non_nullish'];
+
+/**
+ * Checks whether a value is a plain object, e.g. an object literal built by
+ * the handlers, rather than a class instance
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Splits a schema into its base schema and the actions of its (nested) pipes
+ *
+ * @param schema - The schema to split
+ * @returns The base schema and its actions, in pipe order
+ */
+export function splitPipe(schema: any): { base: any; actions: any[] } {
+  if (!Array.isArray(schema.pipe)) {
+    return { base: schema, actions: [] };
+  }
+  const [first, ...rest] = schema.pipe;
+  const actions = rest.filter((item: any) => item?.kind !== 'schema');
+  const inner = splitPipe(first);
+  return { base: inner.base, actions: [...inner.actions, ...actions] };
+}
+
+/**
+ * Visitor of `walkSchemaValue`, called with a schema, its value and the
+ * location of the value within the root value
+ */
+export type SchemaValueVisitor = (schema: any, value: unknown, path: string, keys: Array<string | number>) => void;
+
+/**
+ * Walks a schema along a valid value of it, visiting every schema reached by
+ * the value: wrappers are left on empty values, lazy schemas are resolved
+ * with the value, unions and variants follow the option matching the value,
+ * and intersections follow all their options.
+ *
+ * @param schema - The schema to walk
+ * @param value - The valid value of the schema
+ * @param visit - The visitor of each reached schema
+ * @param path - The path of the value
+ * @param keys - The location of the value within the root value
+ */
+export function walkSchemaValue(
+  schema: any,
+  value: unknown,
+  visit: SchemaValueVisitor,
+  path = '',
+  keys: Array<string | number> = [],
+): void {
+  visit(schema, value, path, keys);
+  if (WRAPPER_TYPES.includes(schema.type)) {
+    if (value !== undefined && value !== null) walkSchemaValue(schema.wrapped, value, visit, path, keys);
+    return;
+  }
+  if (schema.type === 'lazy') {
+    walkSchemaValue(schema.getter(value), value, visit, path, keys);
+    return;
+  }
+  if (schema.type === 'union' || schema.type === 'variant') {
+    const options = schema.type === 'variant' ? getVariantBranches(schema) : schema.options;
+    const option = options.find((option: any) => v.is(option, value));
+    if (option) walkSchemaValue(option, value, visit, path, keys);
+    return;
+  }
+  if (schema.type === 'intersect') {
+    schema.options.forEach((option: any) => walkSchemaValue(option, value, visit, path, keys));
+    return;
+  }
+
+  const { base } = splitPipe(schema);
+  if (OBJECT_TYPES.includes(base.type) && value && typeof value === 'object') {
+    for (const key in base.entries) {
+      if (key in value) {
+        const entry = (value as Record<string, unknown>)[key];
+        walkSchemaValue(base.entries[key], entry, visit, entryPath(path, key), [...keys, key]);
+      }
+    }
+  } else if (base.type === 'array' && Array.isArray(value)) {
+    value.forEach((item, index) => walkSchemaValue(base.item, item, visit, itemPath(path, index), [...keys, index]));
+  } else if (base.items && Array.isArray(value)) {
+    base.items.forEach((item: any, index: number) => {
+      if (index < value.length) walkSchemaValue(item, value[index], visit, itemPath(path, index), [...keys, index]);
+    });
+  } else if (base.type === 'record' && value && typeof value === 'object') {
+    for (const [key, entry] of Object.entries(value)) {
+      walkSchemaValue(base.value, entry, visit, entryPath(path, key), [...keys, key]);
+    }
+  }
+}
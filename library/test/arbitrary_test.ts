@@ -0,0 +1,60 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import fc from "fast-check";
+import * as v from "valibot";
+import { createArbitrary } from "../src/arbitrary.ts";
+import { fake } from "../src/fake.ts";
+import { sequence } from "../src/sequence.ts";
+
+/**
+ * Tests for the fast-check arbitrary adapter.
+ */
+
+const UserSchema = v.object({
+  name: v.pipe(v.string(), v.minLength(2), v.maxLength(12)),
+  age: v.pipe(v.number(), v.integer(), v.minValue(18), v.maxValue(99)),
+  code: v.pipe(v.string(), v.regex(/^[A-Z]{3}-\d{2}$/)),
+  role: v.union([v.literal("user"), v.literal("admin")]),
+  tags: v.array(v.picklist(["a", "b", "c"])),
+  nickname: v.optional(v.string()),
+});
+
+Deno.test("Arbitrary: generated values pass the schema", () => {
+  fc.assert(fc.property(createArbitrary(UserSchema), (user) => v.is(UserSchema, user)), { seed: 1 });
+});
+
+Deno.test("Arbitrary: shrinks towards minimal valid counterexamples", () => {
+  const result = fc.check(fc.property(createArbitrary(UserSchema), (user) => user.age < 40 || user.tags.length < 2), { seed: 1 });
+  const user = result.counterexample![0];
+
+  assert(v.is(UserSchema, user));
+  assertEquals(user.age, 40);
+  assertEquals(user.tags, ["a", "a"]);
+  assertEquals(user.name.length, 2);
+  assertEquals(user.role, "user");
+
+  const text = fc.check(fc.property(createArbitrary(v.pipe(v.string(), v.maxLength(20))), (value) => value.length < 5), { seed: 2 });
+  assertEquals(text.counterexample![0].length, 5);
+});
+
+Deno.test("Arbitrary: generator options and fake generators", () => {
+  const schema = v.object({
+    city: v.pipe(v.string(), fake((faker) => faker.location.city())),
+    scores: v.array(v.number()),
+  });
+  const arbitrary = createArbitrary(schema, { defaultArrayMaxLength: 2, maxChoices: 50 });
+  fc.assert(fc.property(arbitrary, (value) => v.is(schema, value) && value.scores.length <= 2), { seed: 3 });
+});
+
+Deno.test("Arbitrary: replaying draws gives the same value", () => {
+  const schema = v.object({ id: v.pipe(v.string(), sequence("user", (n) => `user-${n}`)), name: v.string() });
+  const arbitrary = createArbitrary(schema);
+  const values = fc.sample(arbitrary, { numRuns: 5, seed: 4 });
+
+  assertEquals(values.map((value) => value.id), ["user-1", "user-1", "user-1", "user-1", "user-1"]);
+  assertEquals(fc.sample(arbitrary, { numRuns: 5, seed: 4 }), values);
+});
+
+Deno.test("Arbitrary: options carrying state are rejected", () => {
+  const options = { seedByPath: true } as Parameters<typeof createArbitrary>[1];
+  assertThrows(() => createArbitrary(UserSchema, options), Error, "does not support the seedByPath and session options");
+});
@@ -0,0 +1,82 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+
+/**
+ * Tests for array constraint awareness.
+ * Each schema must produce a valid array on the first attempt.
+ */
+
+const smallInt = v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(20));
+
+Deno.test("Array: length and nonEmpty", () => {
+  assertFirstTry(v.pipe(v.array(v.string()), v.length(4)));
+  assertFirstTry(v.pipe(v.array(v.string()), v.nonEmpty()));
+  assertFirstTry(v.pipe(v.array(v.string()), v.minLength(15)));
+});
+
+Deno.test("Array: includes inserts the required element", () => {
+  assertFirstTry(v.pipe(v.array(v.string()), v.includes("admin")));
+  assertFirstTry(v.pipe(v.array(smallInt), v.length(2), v.includes(15)));
+});
+
+Deno.test("Array: excludes and everyItem", () => {
+  assertFirstTry(v.pipe(v.array(v.picklist(["a", "b", "c"])), v.minLength(5), v.excludes("b")));
+  assertFirstTry(v.pipe(v.array(smallInt), v.minLength(5), v.everyItem((item) => item % 2 === 0)));
+});
+
+Deno.test("Array: someItem", () => {
+  assertFirstTry(v.pipe(v.array(smallInt), v.someItem((item) => item === 7 || item === 8 || item === 9)));
+  assertFirstTry(v.pipe(v.array(smallInt), v.length(3), v.someItem((item) => item > 18)));
+});
+
+Deno.test("Array: checkItems uniqueness", () => {
+  const schema = v.pipe(
+    v.array(v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(19))),
+    v.length(10),
+    v.checkItems((item, index, array) => array.indexOf(item) === index),
+  );
+  assertFirstTry(schema);
+});
+
+Deno.test("Array: whole-array uniqueness check", () => {
+  const schema = v.pipe(
+    v.array(v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(9))),
+    v.length(8),
+    v.check((array) => new Set(array).size === array.length),
+  );
+  assertFirstTry(schema);
+});
+
+Deno.test("Array: items get index-aware paths", () => {
+  const paths: string[] = [];
+  const schema = v.object({ tags: v.pipe(v.array(v.string()), v.length(3)) });
+  const generator = createMockGenerator(schema, {
+    handlers: {
+      string: (schema, faker, context, options, next) => {
+        paths.push(context.path);
+        return next?.(schema, faker, context, options);
+      },
+    },
+  });
+
+  generator.generate();
+  assertEquals(paths, ["tags[0]", "tags[1]", "tags[2]"]);
+});
+
+Deno.test("Array: nested arrays keep full paths", () => {
+  const paths: string[] = [];
+  const schema = v.pipe(v.array(v.pipe(v.array(v.literal(1)), v.length(1))), v.length(2));
+  const generator = createMockGenerator(schema, {
+    handlers: {
+      literal: (schema, _faker, context, _options) => {
+        paths.push(context.path);
+        return schema.literal;
+      },
+    },
+  });
+
+  generator.generate();
+  assertEquals(paths, ["[0][0]", "[1][0]"]);
+});
@@ -0,0 +1,92 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { fake } from "../src/fake.ts";
+import { containsPromise, resolvePromises } from "../src/async.ts";
+
+/**
+ * Tests for async schemas and async fake generators.
+ */
+
+const taken = new Set(["alice", "bob"]);
+const isAvailable = async (username: "alice" | "bob" | "carol") => {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  return !taken.has(username);
+};
+
+Deno.test("Async: objectAsync with checkAsync", async () => {
+  const schema = v.objectAsync({
+    username: v.pipeAsync(v.picklist(["alice", "bob", "carol"]), v.checkAsync(isAvailable)),
+    age: v.pipe(v.number(), v.integer(), v.minValue(18), v.maxValue(99)),
+  });
+  const generator = createMockGenerator(schema);
+
+  for (const user of await generator.generateManyAsync(10)) {
+    assertEquals(user.username, "carol");
+    assertEquals((await v.safeParseAsync(schema, user)).success, true);
+  }
+});
+
+Deno.test("Async: arrayAsync, unionAsync and recordAsync", async () => {
+  const schema = v.objectAsync({
+    tags: v.pipeAsync(v.arrayAsync(v.pipe(v.string(), v.minLength(2))), v.minLength(1)),
+    value: v.unionAsync([v.number(), v.pipeAsync(v.string(), v.checkAsync((value) => Promise.resolve(value.length < 5)))]),
+    scores: v.recordAsync(v.picklist(["a", "b"]), v.number()),
+  });
+  const generator = createMockGenerator(schema);
+
+  for (const result of await generator.generateManyAsync(10)) {
+    assertEquals((await v.safeParseAsync(schema, result)).success, true, `Invalid value: ${JSON.stringify(result)}`);
+  }
+});
+
+Deno.test("Async: async fake generators are awaited", async () => {
+  const schema = v.objectAsync({
+    id: v.pipe(v.string(), v.uuid(), fake(async (faker) => {
+      await Promise.resolve();
+      return faker.string.uuid();
+    })),
+    nested: v.object({
+      name: v.pipe(v.string(), fake(() => Promise.resolve("from-db"))),
+    }),
+  });
+  const generator = createMockGenerator(schema);
+
+  const result = await generator.generateAsync();
+  assertEquals(typeof result.id, "string");
+  assertEquals(result.nested.name, "from-db");
+  assertEquals((await v.safeParseAsync(schema, result)).success, true);
+});
+
+Deno.test("Async: sync schemas work with generateAsync", async () => {
+  const schema = v.object({ email: v.pipe(v.string(), v.email()) });
+  const generator = createMockGenerator(schema);
+  assertEquals(v.is(schema, await generator.generateAsync()), true);
+});
+
+Deno.test("Async: fails after maxAttempts", async () => {
+  const schema = v.pipeAsync(v.string(), v.checkAsync(() => Promise.resolve(false)));
+  const generator = createMockGenerator(schema, { maxAttempts: 3 });
+  await assertRejects(() => generator.generateAsync(), Error, "Max attempts reached");
+});
+
+Deno.test("Async: sync methods reject async schemas", () => {
+  const schema = v.objectAsync({ name: v.pipeAsync(v.string(), v.checkAsync((value) => Promise.resolve(value.length > 0))) });
+  const generator = createMockGenerator(schema);
+  assertThrows(() => generator.generate(), Error, "generate() does not support async schemas, use generateAsync() instead");
+  assertThrows(() => generator.generateMany(2), Error, "generateMany() does not support async schemas");
+  assertThrows(() => generator.generateBoundaries(), Error, "generateBoundaries() does not support async schemas");
+});
+
+Deno.test("resolvePromises - awaits nested promises", async () => {
+  const value = {
+    list: [Promise.resolve(1), 2],
+    map: new Map([["key", Promise.resolve("value")]]),
+    deep: { inner: Promise.resolve({ leaf: Promise.resolve(true) }) },
+  };
+  assertEquals(containsPromise(value), true);
+
+  const resolved = await resolvePromises(value);
+  assertEquals(resolved, { list: [1, 2], map: new Map([["key", "value"]]), deep: { inner: { leaf: true } } });
+  assertEquals(containsPromise(resolved), false);
+});
@@ -0,0 +1,65 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+import { randomBigInt } from "../src/bigint.ts";
+import { Faker, en } from "@faker-js/faker";
+
+/**
+ * Tests for arbitrary-precision bigint generation.
+ */
+
+const U64_MAX = 2n ** 64n - 1n;
+const I128_MIN = -(2n ** 127n);
+const I128_MAX = 2n ** 127n - 1n;
+
+Deno.test("BigInt: unsigned 64-bit range", () => {
+  const schema = v.pipe(v.bigint(), v.minValue(0n), v.maxValue(U64_MAX));
+  assertFirstTry(schema);
+
+  // Values must spread over the whole range, not stay within Number precision
+  const generator = createMockGenerator(schema);
+  const large = generator.generateMany(50).filter((value) => value > 2n ** 53n);
+  assertEquals(large.length > 40, true);
+});
+
+Deno.test("BigInt: signed 128-bit range", () => {
+  assertFirstTry(v.pipe(v.bigint(), v.minValue(I128_MIN), v.maxValue(I128_MAX)));
+});
+
+Deno.test("BigInt: narrow range beyond Number precision", () => {
+  const min = 2n ** 100n;
+  const schema = v.pipe(v.bigint(), v.minValue(min), v.maxValue(min + 3n));
+  assertFirstTry(schema);
+
+  const generator = createMockGenerator(schema);
+  const seen = new Set(generator.generateMany(100));
+  assertEquals(seen.size, 4);
+});
+
+Deno.test("BigInt: multipleOf and exclusive bounds", () => {
+  assertFirstTry(v.pipe(v.bigint(), v.multipleOf(10n ** 18n), v.gtValue(0n), v.ltValue(10n ** 30n)));
+  assertFirstTry(v.pipe(v.bigint(), v.multipleOf(6n), v.multipleOf(4n), v.minValue(-100n), v.maxValue(100n)));
+});
+
+Deno.test("BigInt: notValue and single bounds", () => {
+  assertFirstTry(v.pipe(v.bigint(), v.minValue(1n), v.maxValue(3n), v.notValues([1n, 3n])));
+  assertFirstTry(v.pipe(v.bigint(), v.minValue(10n ** 20n)));
+  assertFirstTry(v.pipe(v.bigint(), v.maxValue(-(10n ** 20n))));
+});
+
+Deno.test("BigInt: reproducible with a seed", () => {
+  const schema = v.pipe(v.bigint(), v.minValue(0n), v.maxValue(U64_MAX));
+  const first = createMockGenerator(schema, { faker: { locale: [en], seed: 42 } });
+  const second = createMockGenerator(schema, { faker: { locale: [en], seed: 42 } });
+
+  assertEquals(first.generateMany(10), second.generateMany(10));
+});
+
+Deno.test("randomBigInt - stays within range", () => {
+  const faker = new Faker({ locale: [en], seed: 1 });
+  for (let i = 0; i < 100; i++) {
+    const value = randomBigInt(faker, 5n);
+    assertEquals(value >= 0n && value < 5n, true);
+  }
+});
@@ -0,0 +1,91 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { boundaryNumber, getNumberConstraints } from "../src/number.ts";
+import { boundaryBigInt, getBigIntConstraints } from "../src/bigint.ts";
+import { nextAfter } from "../src/boundary.ts";
+
+/**
+ * Tests for boundary-value generation.
+ */
+
+Deno.test("Boundary: generateBoundaries reaches both edges", () => {
+  const schema = v.object({
+    name: v.pipe(v.string(), v.minLength(2), v.maxLength(8)),
+    age: v.pipe(v.number(), v.integer(), v.minValue(18), v.maxValue(65)),
+    role: v.picklist(["guest", "user", "admin"]),
+    tags: v.pipe(v.array(v.string()), v.maxLength(4)),
+    code: v.pipe(v.string(), v.length(6)),
+    nickname: v.optional(v.string()),
+    active: v.boolean(),
+  });
+  const [min, max] = createMockGenerator(schema).generateBoundaries();
+
+  assertEquals(min!.name.length, 2);
+  assertEquals(max!.name.length, 8);
+  assertEquals([min!.age, max!.age], [18, 65]);
+  assertEquals([min!.role, max!.role], ["guest", "admin"]);
+  assertEquals([min!.tags.length, max!.tags.length], [0, 4]);
+  assertEquals([min!.code.length, max!.code.length], [6, 6]);
+  assertEquals([min!.nickname, typeof max!.nickname], [undefined, "string"]);
+  assertEquals([min!.active, max!.active], [false, true]);
+});
+
+Deno.test("Boundary: exclusive bounds, multiples and dates", () => {
+  const schema = v.object({
+    ratio: v.pipe(v.number(), v.gtValue(0), v.ltValue(1)),
+    even: v.pipe(v.number(), v.multipleOf(2), v.minValue(3), v.maxValue(11)),
+    amount: v.pipe(v.bigint(), v.minValue(10n), v.maxValue(20n), v.notValue(20n)),
+    day: v.pipe(v.date(), v.minValue(new Date("2024-01-01")), v.maxValue(new Date("2024-12-31"))),
+  });
+  const [min, max] = createMockGenerator(schema).generateBoundaries();
+
+  assertEquals(min!.ratio, Number.MIN_VALUE);
+  assertEquals(max!.ratio, nextAfter(1, -1));
+  assertEquals([min!.even, max!.even], [4, 10]);
+  assertEquals([min!.amount, max!.amount], [10n, 19n]);
+  assertEquals([min!.day, max!.day], [new Date("2024-01-01"), new Date("2024-12-31")]);
+});
+
+Deno.test("Boundary: nullable, collections and variants", () => {
+  const schema = v.object({
+    deletedAt: v.nullable(v.date()),
+    scores: v.map(v.string(), v.number()),
+    ids: v.set(v.pipe(v.string(), v.uuid())),
+    payment: v.variant("type", [
+      v.object({ type: v.literal("card") }),
+      v.object({ type: v.literal("cash") }),
+    ]),
+  });
+  const [min, max] = createMockGenerator(schema, { defaultMapSize: { max: 3 } }).generateBoundaries();
+
+  assertEquals([min!.deletedAt, max!.deletedAt instanceof Date], [null, true]);
+  assertEquals([min!.scores.size, max!.scores.size], [0, 3]);
+  assertEquals(min!.ids.size, 0);
+  assertEquals([min!.payment.type, max!.payment.type], ["card", "cash"]);
+});
+
+Deno.test("Boundary: mode option draws edges", () => {
+  const schema = v.pipe(v.number(), v.integer(), v.minValue(-5), v.maxValue(5));
+  const generator = createMockGenerator(schema, { mode: "boundary" });
+  const values = new Set(generator.generateMany(40));
+  assertEquals([...values].sort(), [-5, 5]);
+});
+
+Deno.test("Boundary: falls back to random values when an edge is invalid", () => {
+  const schema = v.pipe(v.string(), v.maxLength(5), v.check((value) => value.length > 0 && value.length < 5));
+  for (const value of createMockGenerator(schema).generateBoundaries()) {
+    assertEquals(v.is(schema, value), true);
+  }
+});
+
+Deno.test("boundaryNumber and boundaryBigInt - skip excluded values", () => {
+  const numbers = getNumberConstraints(v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(9), v.notValues([0, 1, 9])));
+  assertEquals([boundaryNumber(numbers, "min"), boundaryNumber(numbers, "max")], [2, 8]);
+
+  const allowed = getNumberConstraints(v.pipe(v.number(), v.values([7, 3, 5])));
+  assertEquals([boundaryNumber(allowed, "min"), boundaryNumber(allowed, "max")], [3, 7]);
+
+  const bigints = getBigIntConstraints(v.pipe(v.bigint(), v.multipleOf(5n), v.minValue(1n), v.maxValue(24n)));
+  assertEquals([boundaryBigInt(bigints, "min"), boundaryBigInt(bigints, "max")], [5n, 20n]);
+});
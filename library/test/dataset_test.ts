@@ -0,0 +1,141 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import * as v from "valibot";
+import { en } from "@faker-js/faker";
+import { buildDataset } from "../src/dataset.ts";
+import { identifier, reference } from "../src/reference.ts";
+
+/**
+ * Tests for multi-schema datasets.
+ */
+
+const UserSchema = v.object({
+  id: v.pipe(v.string(), v.uuid(), identifier("user")),
+  email: v.pipe(v.string(), v.email()),
+});
+
+const TagSchema = v.object({
+  slug: v.pipe(v.string(), v.minLength(3), v.maxLength(10)),
+});
+
+const PostSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  meta: v.object({ authorId: v.string() }),
+  tagSlugs: v.array(v.string()),
+});
+
+const CommentSchema = v.object({
+  postId: v.number(),
+  userId: v.pipe(v.string(), reference("user")),
+});
+
+const collections = {
+  comments: { schema: CommentSchema, count: 30, relations: { postId: { to: "posts" } } },
+  posts: {
+    schema: PostSchema,
+    count: 10,
+    relations: {
+      "meta.authorId": { to: "users" },
+      tagSlugs: { to: "tags", key: "slug", many: { min: 1, max: 2 } },
+    },
+  },
+  users: { schema: UserSchema, count: 4 },
+  tags: { schema: TagSchema, count: 5 },
+};
+
+Deno.test("Dataset: collections point at generated entities", () => {
+  const { users, tags, posts, comments } = buildDataset(collections);
+
+  assertEquals([users.length, tags.length, posts.length, comments.length], [4, 5, 10, 30]);
+  const userIds = users.map((user) => user.id);
+  const slugs = tags.map((tag) => tag.slug);
+  const postIds = posts.map((post) => post.id);
+
+  for (const post of posts) {
+    assertEquals(userIds.includes(post.meta.authorId), true);
+    assertEquals(post.tagSlugs.length >= 1 && post.tagSlugs.length <= 2, true);
+    assertEquals(new Set(post.tagSlugs).size, post.tagSlugs.length);
+    assertEquals(post.tagSlugs.every((slug) => slugs.includes(slug)), true);
+  }
+  for (const comment of comments) {
+    assertEquals(postIds.includes(comment.postId), true);
+    assertEquals(userIds.includes(comment.userId), true);
+  }
+});
+
+Deno.test("Dataset: one shared seed", () => {
+  const options = { faker: { locale: [en], seed: 42 } };
+  const dataset = buildDataset(collections, options);
+  assertEquals(buildDataset(collections, options), dataset);
+
+  // Collections keep their entities when others change
+  const fewerComments = buildDataset({ ...collections, comments: { ...collections.comments, count: 1 } }, options);
+  assertEquals(fewerComments.users, dataset.users);
+  assertEquals(fewerComments.posts, dataset.posts);
+});
+
+Deno.test("Dataset: order follows reference markers", () => {
+  const { comments, users } = buildDataset({
+    comments: { schema: v.object({ userId: v.pipe(v.string(), reference("user")) }), count: 10 },
+    users: { schema: UserSchema, count: 3 },
+  });
+  const userIds = users.map((user) => user.id);
+  assertEquals(comments.every((comment) => userIds.includes(comment.userId)), true);
+});
+
+Deno.test("Dataset: self relations point at entities generated before", () => {
+  const NodeSchema = v.object({
+    id: v.pipe(v.string(), v.uuid()),
+    parentId: v.nullable(v.string()),
+    childOf: v.optional(v.string()),
+  });
+  const { nodes } = buildDataset({
+    nodes: { schema: NodeSchema, count: 8, relations: { parentId: { to: "nodes" }, childOf: { to: "nodes" } } },
+  });
+
+  assertEquals([nodes[0]!.parentId, nodes[0]!.childOf], [null, undefined]);
+  nodes.slice(1).forEach((node, index) => {
+    const previous = nodes.slice(0, index + 1).map((other) => other.id);
+    assertEquals(previous.includes(node.parentId!), true);
+    assertEquals(previous.includes(node.childOf!), true);
+  });
+
+  // Reference markers of the same collection
+  const TreeSchema = v.object({
+    id: v.pipe(v.string(), v.uuid(), identifier("tree")),
+    parentId: v.nullable(v.pipe(v.string(), reference("tree"))),
+  });
+  const { trees } = buildDataset({ trees: { schema: TreeSchema, count: 5 } });
+  assertEquals(trees[0]!.parentId, null);
+  trees.slice(1).forEach((tree, index) => {
+    assertEquals(tree.parentId === null || trees.slice(0, index + 1).some((other) => other.id === tree.parentId), true);
+  });
+});
+
+Deno.test("Dataset: invalid relations", () => {
+  assertThrows(
+    () => buildDataset({ posts: { schema: PostSchema, count: 1, relations: { "meta.authorId": { to: "authors" } } } }),
+    Error,
+    'Unknown collection "authors" for relation posts.meta.authorId',
+  );
+  assertThrows(
+    () => buildDataset({
+      a: { schema: UserSchema, count: 1, relations: { email: { to: "b" } } },
+      b: { schema: UserSchema, count: 1, relations: { email: { to: "a" } } },
+    }),
+    Error,
+    "Circular relations between collections: a -> b -> a",
+  );
+  assertThrows(
+    () => buildDataset({
+      users: { schema: UserSchema, count: 0 },
+      posts: { schema: PostSchema, count: 1, relations: { "meta.authorId": { to: "users" } } },
+    }),
+    Error,
+    'No users to reference at path "posts.meta.authorId"',
+  );
+  assertThrows(
+    () => buildDataset({ nodes: { schema: v.object({ id: v.string(), parentId: v.string() }), count: 2, relations: { parentId: { to: "nodes" } } } }),
+    Error,
+    'No nodes to reference at path "nodes.parentId"',
+  );
+});
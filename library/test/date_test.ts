@@ -0,0 +1,56 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+
+/**
+ * Tests for date range constraints, on date schemas and ISO string formats.
+ */
+
+const DAY = 24 * 60 * 60 * 1000;
+
+Deno.test("Date: future-dated range", () => {
+  const min = new Date(Date.now() + 30 * DAY);
+  const max = new Date(Date.now() + 60 * DAY);
+  assertFirstTry(v.pipe(v.date(), v.minValue(min), v.maxValue(max)));
+});
+
+Deno.test("Date: single lower bound in the future", () => {
+  assertFirstTry(v.pipe(v.date(), v.minValue(new Date(Date.now() + 5 * 365 * DAY))));
+});
+
+Deno.test("Date: single upper bound in the far past", () => {
+  assertFirstTry(v.pipe(v.date(), v.maxValue(new Date("1990-01-01"))));
+});
+
+Deno.test("Date: exclusive bounds", () => {
+  const min = new Date("2030-01-01T00:00:00.000Z");
+  const max = new Date("2030-01-01T00:00:00.010Z");
+  assertFirstTry(v.pipe(v.date(), v.gtValue(min), v.ltValue(max)));
+});
+
+Deno.test("Date: defaultDateRange option", () => {
+  const min = new Date("2040-01-01T00:00:00.000Z");
+  const max = new Date("2040-12-31T00:00:00.000Z");
+  const generator = createMockGenerator(v.date(), { defaultDateRange: { min, max } });
+
+  for (const date of generator.generateMany(20)) {
+    assertEquals(date >= min && date <= max, true, date.toISOString());
+  }
+});
+
+Deno.test("Date: ISO string formats honour value bounds", () => {
+  assertFirstTry(v.pipe(v.string(), v.isoDate(), v.minValue("2035-03-01"), v.maxValue("2035-03-05")));
+  assertFirstTry(v.pipe(v.string(), v.isoDate(), v.gtValue("2035-03-01"), v.ltValue("2035-03-03")));
+  assertFirstTry(v.pipe(v.string(), v.isoDateTime(), v.minValue("2035-03-01T10:00"), v.ltValue("2035-03-01T10:05")));
+  assertFirstTry(v.pipe(v.string(), v.isoTimestamp(), v.minValue("2035-03-01T10:00:00.000Z")));
+  assertFirstTry(v.pipe(v.string(), v.isoTime(), v.minValue("09:00"), v.maxValue("17:30")));
+  assertFirstTry(v.pipe(v.string(), v.isoTimeSecond(), v.gtValue("23:59:58")));
+  assertFirstTry(v.pipe(v.string(), v.isoWeek(), v.minValue("2035-W10"), v.maxValue("2035-W12")));
+});
+
+Deno.test("Date: ISO week formatting uses the week-numbering year", () => {
+  const schema = v.pipe(v.string(), v.isoWeek(), v.minValue("2026-W53"), v.maxValue("2026-W53"));
+  const generator = createMockGenerator(schema, { maxAttempts: 1 });
+  assertEquals(generator.generate(), "2026-W53");
+});
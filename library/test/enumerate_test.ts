@@ -0,0 +1,68 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { toKey } from "../src/array.ts";
+
+/**
+ * Tests for the exhaustive enumeration of finite schemas.
+ */
+
+const ConfigSchema = v.object({
+  mode: v.picklist(["dev", "prod"]),
+  debug: v.boolean(),
+  level: v.optional(v.union([v.literal(1), v.literal(2)])),
+  pair: v.tuple([v.literal("x"), v.nullable(v.boolean())]),
+});
+
+Deno.test("Enumerate: every distinct value of a configuration object", () => {
+  const generator = createMockGenerator(ConfigSchema);
+  const all = generator.generateAll();
+
+  // 2 modes x 2 flags x 3 levels (absent, 1, 2) x 3 pair values
+  assertEquals(all.length, 36);
+  assertEquals(new Set(all.map(toKey)).size, 36);
+  assertEquals(all.every((value) => v.is(ConfigSchema, value)), true);
+  assertEquals(all.some((value) => !("level" in value)), true);
+  assertEquals(generator.estimateCardinality(), 36);
+});
+
+Deno.test("Enumerate: enums, variants and pipes", () => {
+  enum Color {
+    Red = "red",
+    Blue = "blue",
+  }
+  const schema = v.variant("kind", [
+    v.object({ kind: v.literal("paint"), color: v.enum(Color) }),
+    v.object({ kind: v.literal("none") }),
+  ]);
+  assertEquals(createMockGenerator(schema).generateAll(), [
+    { kind: "paint", color: "red" },
+    { kind: "paint", color: "blue" },
+    { kind: "none" },
+  ]);
+
+  const filtered = v.pipe(v.picklist(["a", "bb", "ccc"]), v.minLength(2));
+  assertEquals(createMockGenerator(filtered).generateAll(), ["bb", "ccc"]);
+});
+
+Deno.test("Enumerate: defaults merge into a single output", () => {
+  const schema = v.object({ theme: v.optional(v.picklist(["light", "dark"]), "light") });
+  assertEquals(createMockGenerator(schema).generateAll(), [{ theme: "light" }, { theme: "dark" }]);
+});
+
+Deno.test("Enumerate: infinite schemas throw", () => {
+  const generator = createMockGenerator(v.object({ name: v.string() }));
+  assertThrows(() => generator.generateAll(), Error, "Unable to enumerate schema type: object");
+});
+
+Deno.test("Cardinality: estimates of other schemas", () => {
+  const estimate = (schema: v.GenericSchema) => createMockGenerator(schema).estimateCardinality();
+
+  assertEquals(estimate(v.string()), Infinity);
+  assertEquals(estimate(v.number()), Infinity);
+  assertEquals(estimate(v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(10))), 10);
+  assertEquals(estimate(v.pipe(v.number(), v.multipleOf(5), v.minValue(0), v.maxValue(100))), 21);
+  assertEquals(estimate(v.pipe(v.bigint(), v.minValue(-2n), v.maxValue(2n))), 5);
+  assertEquals(estimate(v.pipe(v.array(v.boolean()), v.maxLength(2))), 7);
+  assertEquals(estimate(v.nullish(v.picklist(["a", "b"]))), 4);
+});
@@ -0,0 +1,65 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import * as v from "valibot";
+import { defineFactory } from "../src/factory.ts";
+
+/**
+ * Tests for factories with named traits.
+ */
+
+const UserSchema = v.pipe(
+  v.object({
+    name: v.pipe(v.string(), v.minLength(2), v.maxLength(20)),
+    role: v.picklist(["user", "admin"]),
+    status: v.picklist(["active", "suspended"]),
+    verifiedAt: v.nullable(v.date()),
+    profile: v.optional(v.object({ bio: v.string(), avatar: v.pipe(v.string(), v.url()) })),
+    permissions: v.array(v.picklist(["read", "write", "delete"])),
+  }),
+  v.check((user) => user.role === "admin" || !user.permissions.includes("delete"), "only admins delete"),
+);
+
+const factory = defineFactory(UserSchema, {
+  traits: {
+    admin: { role: "admin", permissions: ["read", "write", "delete"] },
+    suspended: { status: "suspended" },
+    verified: { verifiedAt: (faker) => faker.date.past() },
+    withoutProfile: { profile: undefined },
+    bio: { profile: { bio: "Hello" } },
+  },
+});
+
+Deno.test("Factory: traits are combined", () => {
+  const user = factory.build("admin", "verified", "suspended");
+  assertEquals(user.role, "admin");
+  assertEquals(user.permissions, ["read", "write", "delete"]);
+  assertEquals(user.status, "suspended");
+  assertEquals(user.verifiedAt instanceof Date, true);
+  assertEquals(v.is(UserSchema, user), true);
+
+  assertEquals(factory.build("withoutProfile").profile, undefined);
+  for (const user of factory.buildMany(5, "bio")) {
+    assertEquals(user.profile?.bio, "Hello");
+  }
+});
+
+Deno.test("Factory: later traits and overrides take precedence", () => {
+  const user = factory.build("admin", { name: "Ada", permissions: ["read"] });
+  assertEquals([user.role, user.name, user.permissions], ["admin", "Ada", ["read"]]);
+  assertEquals(factory.build("bio", "withoutProfile").profile, undefined);
+});
+
+Deno.test("Factory: generated values conflicting with traits are generated again", () => {
+  const writer = defineFactory(UserSchema, { traits: { deleter: { permissions: ["delete"] } } });
+  for (const user of writer.buildMany(10, "deleter")) {
+    assertEquals(user.role, "admin");
+  }
+});
+
+Deno.test("Factory: unknown traits and invalid combinations", () => {
+  assertThrows(() => factory.build("owner" as "admin"), Error, "Unknown trait: owner");
+  assertThrows(
+    () => factory.build("admin", { role: "user" }),
+    Error,
+    'override of "role" breaks check at "": only admins delete',
+  );
+});
@@ -0,0 +1,141 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator, handleSchema, registerHandler } from "../src/generator.ts";
+import type { SchemaHandler } from "../src/types.ts";
+
+Deno.test("handlers option - overrides a built-in handler", () => {
+  const schema = v.string();
+  const generator = createMockGenerator(schema, {
+    handlers: {
+      string: () => "overridden",
+    },
+  });
+
+  assertEquals(generator.generate(), "overridden");
+});
+
+Deno.test("handlers option - wraps the built-in handler through next", () => {
+  const schema = v.pipe(v.string(), v.minLength(3), v.maxLength(3));
+  const generator = createMockGenerator(schema, {
+    handlers: {
+      string: (schema, faker, context, options, next) => {
+        const value = next?.(schema, faker, context, options);
+        return String(value).toUpperCase();
+      },
+    },
+  });
+
+  for (let i = 0; i < 10; i++) {
+    const result = generator.generate();
+    assertEquals(result.length, 3);
+    assertEquals(result, result.toUpperCase());
+  }
+});
+
+Deno.test("handlers option - handles custom schema types", () => {
+  const evenSchema = {
+    ...v.pipe(v.number(), v.check((input) => input % 2 === 0)),
+    type: "even_number",
+  } as unknown as v.GenericSchema<number>;
+
+  const generator = createMockGenerator(evenSchema, {
+    handlers: {
+      even_number: (_schema, faker) => faker.number.int({ min: 0, max: 50 }) * 2,
+    },
+  });
+
+  for (let i = 0; i < 10; i++) {
+    assertEquals(generator.generate() % 2, 0);
+  }
+});
+
+Deno.test("handlers option - delegates child schemas to handleSchema", () => {
+  const schema = v.object({
+    name: v.literal("child"),
+  });
+
+  const paths: string[] = [];
+  const generator = createMockGenerator(schema, {
+    handlers: {
+      object: (schema, faker, context, options) => {
+        const result: Record<string, unknown> = {};
+        for (const key in schema.entries) {
+          const fieldContext = { ...context, path: context.path ? `${context.path}.${key}` : key };
+          paths.push(fieldContext.path);
+          result[key] = handleSchema(schema.entries[key], faker, fieldContext, options);
+        }
+        return result;
+      },
+    },
+  });
+
+  assertEquals(generator.generate(), { name: "child" });
+  assertEquals(paths[0], "name");
+});
+
+Deno.test("registerHandler - applies to generators created afterwards", () => {
+  const handler: SchemaHandler = () => true;
+  const unregister = registerHandler("boolean", handler);
+
+  try {
+    const generator = createMockGenerator(v.boolean());
+    for (let i = 0; i < 10; i++) {
+      assertEquals(generator.generate(), true);
+    }
+  } finally {
+    unregister();
+  }
+});
+
+Deno.test("registerHandler - options handlers take precedence", () => {
+  const unregister = registerHandler("literal", () => "global");
+
+  try {
+    const schema = v.union([v.literal("global"), v.literal("local")]);
+    const generator = createMockGenerator(schema, {
+      handlers: {
+        union: () => "local",
+      },
+    });
+    assertEquals(generator.generate(), "local");
+
+    const globalGenerator = createMockGenerator(v.literal("global"));
+    assertEquals(globalGenerator.generate(), "global");
+  } finally {
+    unregister();
+  }
+});
+
+Deno.test("registerHandler - unregister restores the previous handler", () => {
+  const unregister = registerHandler("string", () => "registered");
+  unregister();
+
+  const generator = createMockGenerator(v.pipe(v.string(), v.minLength(12), v.maxLength(12)));
+  assertEquals(generator.generate().length, 12);
+});
+
+Deno.test("registerHandler - stacked registrations chain into next", () => {
+  const unregisterA = registerHandler("string", (schema, faker, context, options, next) => `A(${next?.(schema, faker, context, options)})`);
+  const unregisterB = registerHandler("string", (schema, faker, context, options, next) => `B(${next?.(schema, faker, context, options)})`);
+
+  try {
+    const generator = createMockGenerator(v.string());
+    assertEquals(/^B\(A\(.*\)\)$/.test(generator.generate()), true);
+  } finally {
+    unregisterA();
+    unregisterB();
+  }
+});
+
+Deno.test("registerHandler - unregister removes its own registration in any order", () => {
+  const unregisterA = registerHandler("string", () => "A");
+  const unregisterB = registerHandler("string", (schema, faker, context, options, next) => `B:${next?.(schema, faker, context, options)}`);
+  assertEquals(createMockGenerator(v.string()).generate(), "B:A");
+
+  unregisterA();
+  const value = createMockGenerator(v.string()).generate();
+  assertEquals(value.startsWith("B:") && value !== "B:A", true);
+
+  unregisterB();
+  assertEquals(createMockGenerator(v.string()).generate().startsWith("B:"), false);
+});
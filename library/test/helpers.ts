@@ -0,0 +1,21 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import type { MockGeneratorOptions } from "../src/types.ts";
+import { createMockGenerator } from "../src/generator.ts";
+
+/**
+ * Asserts that every generated value is valid on the first attempt, i.e.
+ * without relying on retries
+ *
+ * @param schema - The schema to generate values for
+ * @param options - The generator options
+ * @param iterations - The number of values to check
+ */
+export function assertFirstTry(schema: v.GenericSchema, options: MockGeneratorOptions = {}, iterations = 50): void {
+  const generator = createMockGenerator(schema, { maxAttempts: 1, ...options });
+  for (let i = 0; i < iterations; i++) {
+    const result = generator.generate();
+    const validation = v.safeParse(schema, result);
+    assertEquals(validation.success, true, `Invalid value: ${Deno.inspect(result)} ${validation.issues?.[0]?.message ?? ''}`);
+  }
+}
@@ -0,0 +1,83 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { splitTransformation } from "../src/transform.ts";
+
+/**
+ * Tests for input generation of schemas with transforming pipes.
+ */
+
+Deno.test("Input: decimal string transformed to a number", () => {
+  const schema = v.pipe(v.string(), v.decimal(), v.transform(Number));
+  const generator = createMockGenerator(schema, { maxAttempts: 1 });
+
+  for (const input of generator.generateManyInput(20)) {
+    assertEquals(typeof input, "string");
+    assertEquals(v.safeParse(schema, input).success, true);
+  }
+  for (const output of generator.generateMany(20)) {
+    assertEquals(typeof output, "number");
+  }
+});
+
+Deno.test("Input: transformed entries inside objects", () => {
+  const schema = v.object({
+    amount: v.pipe(v.string(), v.digits(), v.transform((value) => parseInt(value, 10))),
+    tags: v.pipe(v.string(), v.transform((value) => value.split(","))),
+    name: v.pipe(v.string(), v.trim(), v.minLength(1)),
+  });
+  const generator = createMockGenerator(schema);
+
+  const input = generator.generateInput();
+  assertEquals(typeof input.amount, "string");
+  assertEquals(typeof input.tags, "string");
+  assertEquals(v.safeParse(schema, input).success, true);
+
+  const output = generator.generate();
+  assertEquals(typeof output.amount, "number");
+  assertEquals(Array.isArray(output.tags), true);
+});
+
+Deno.test("Input: parseJson generates JSON of the following schema", () => {
+  const schema = v.pipe(
+    v.string(),
+    v.parseJson(),
+    v.object({ id: v.pipe(v.number(), v.integer(), v.minValue(1)), email: v.pipe(v.string(), v.email()) }),
+  );
+  const generator = createMockGenerator(schema, { maxAttempts: 1 });
+
+  for (const input of generator.generateManyInput(20)) {
+    assertEquals(typeof input, "string");
+    assertEquals(v.safeParse(schema, input).success, true);
+  }
+  const output = generator.generate();
+  assertEquals(typeof output.id, "number");
+});
+
+Deno.test("Input: actions after a transformation do not constrain the input", () => {
+  const schema = v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(5), v.transform((value) => value * 100), v.minValue(0));
+  const generator = createMockGenerator(schema, { maxAttempts: 1 });
+  for (const input of generator.generateManyInput(20)) {
+    assertEquals(input >= 0 && input <= 5, true);
+  }
+});
+
+Deno.test("Input: optional defaults are applied to the output only", () => {
+  const schema = v.object({ role: v.optional(v.string(), "user") });
+  const generator = createMockGenerator(schema);
+
+  const inputs = generator.generateManyInput(40);
+  assertEquals(inputs.some((input) => input.role === undefined), true);
+  for (const output of generator.generateMany(20)) {
+    assertEquals(typeof output.role, "string");
+  }
+});
+
+Deno.test("splitTransformation - splits at the first value-changing transformation", () => {
+  assertEquals(splitTransformation(v.pipe(v.string(), v.trim(), v.minLength(2))), null);
+
+  const split = splitTransformation(v.pipe(v.string(), v.minLength(2), v.transform(Number), v.minValue(3)));
+  assertEquals(split?.input.pipe.map((item: { type: string }) => item.type), ["string", "min_length"]);
+  assertEquals(split?.transformation.type, "transform");
+  assertEquals(split?.invert, null);
+});
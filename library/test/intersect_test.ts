@@ -0,0 +1,65 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+import { mergeSchemas } from "../src/intersect.ts";
+
+/**
+ * Tests for intersect generation merging the constraints of its members.
+ */
+
+Deno.test("Intersect: merged number bounds", () => {
+  assertFirstTry(v.intersect([v.pipe(v.number(), v.minValue(5)), v.pipe(v.number(), v.maxValue(10))]));
+  assertFirstTry(v.intersect([
+    v.pipe(v.number(), v.integer(), v.gtValue(100)),
+    v.pipe(v.number(), v.multipleOf(7)),
+    v.pipe(v.number(), v.ltValue(150)),
+  ]));
+});
+
+Deno.test("Intersect: merged string, bigint and date bounds", () => {
+  assertFirstTry(v.intersect([v.pipe(v.string(), v.minLength(30)), v.pipe(v.string(), v.maxLength(32))]));
+  assertFirstTry(v.intersect([v.pipe(v.string(), v.email()), v.pipe(v.string(), v.maxLength(40))]));
+
+  const bigints = v.intersect([v.pipe(v.bigint(), v.minValue(10n ** 20n)), v.pipe(v.bigint(), v.maxValue(10n ** 20n + 5n))]);
+  const generator = createMockGenerator(bigints, { maxAttempts: 1 });
+  for (const result of generator.generateMany(30)) {
+    assertEquals(v.is(bigints, result), true, `Invalid value: ${result}`);
+  }
+  assertFirstTry(v.intersect([
+    v.pipe(v.date(), v.minValue(new Date("2020-01-01"))),
+    v.pipe(v.date(), v.maxValue(new Date("2020-01-02"))),
+  ]));
+});
+
+Deno.test("Intersect: objects with overlapping keys", () => {
+  const schema = v.intersect([
+    v.object({ id: v.pipe(v.string(), v.uuid()), age: v.pipe(v.number(), v.minValue(18)) }),
+    v.object({ age: v.pipe(v.number(), v.integer(), v.maxValue(21)), name: v.string() }),
+  ]);
+  assertFirstTry(schema);
+
+  const generator = createMockGenerator(schema);
+  assertEquals(Object.keys(generator.generate()).sort(), ["age", "id", "name"]);
+});
+
+Deno.test("Intersect: finite members keep the shared values", () => {
+  assertFirstTry(v.intersect([v.picklist(["a", "b", "c"]), v.picklist(["b", "c", "d"]), v.literal("c")]));
+  assertFirstTry(v.intersect([v.picklist(["a", "b", "c"]), v.pipe(v.string(), v.regex(/^[ab]$/))]));
+});
+
+Deno.test("Intersect: arrays, nested intersects and neutral members", () => {
+  assertFirstTry(v.intersect([
+    v.pipe(v.array(v.pipe(v.number(), v.minValue(0))), v.minLength(2)),
+    v.pipe(v.array(v.pipe(v.number(), v.maxValue(1))), v.maxLength(3)),
+  ]));
+  assertFirstTry(v.intersect([
+    v.unknown(),
+    v.intersect([v.pipe(v.number(), v.minValue(1)), v.pipe(v.number(), v.maxValue(2))]),
+  ]));
+});
+
+Deno.test("mergeSchemas - returns null for incompatible members", () => {
+  assertEquals(mergeSchemas([v.string(), v.number()]), null);
+  assertEquals(mergeSchemas([v.picklist(["a"]), v.picklist(["b"])]), null);
+});
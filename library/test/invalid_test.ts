@@ -0,0 +1,93 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+
+/**
+ * Tests for the generation of values violating exactly one constraint.
+ */
+
+const UserSchema = v.object({
+  name: v.pipe(v.string(), v.minLength(2), v.maxLength(20)),
+  email: v.pipe(v.string(), v.email()),
+  age: v.pipe(v.number(), v.integer(), v.minValue(18), v.maxValue(120)),
+  role: v.picklist(["user", "admin"]),
+  tags: v.pipe(v.array(v.pipe(v.string(), v.nonEmpty())), v.minLength(1), v.maxLength(3)),
+  createdAt: v.pipe(v.date(), v.maxValue(new Date("2030-01-01"))),
+});
+
+const assertSingleIssue = (schema: v.GenericSchema, value: unknown, path: string, type: string) => {
+  const result = v.safeParse(schema, value);
+  assertEquals(result.issues?.length, 1, `Unexpected issues for ${JSON.stringify(value)}`);
+  assertEquals(result.issues![0]!.type, type);
+  assertEquals(v.getDotPath(result.issues![0]!) ?? "", path.replace(/\[(\d+)\]/g, ".$1"));
+};
+
+Deno.test("Invalid: targeted path and action type", () => {
+  const generator = createMockGenerator(UserSchema);
+  const targets = [
+    { path: "name", type: "max_length" },
+    { path: "name", type: "min_length" },
+    { path: "email", type: "email" },
+    { path: "age", type: "integer" },
+    { path: "age", type: "min_value" },
+    { path: "age", type: "max_value" },
+    { path: "role", type: "picklist" },
+    { path: "tags", type: "min_length" },
+    { path: "tags", type: "max_length" },
+    { path: "createdAt", type: "max_value" },
+    { path: "email", type: "string" },
+    { path: "", type: "object" },
+  ];
+
+  for (const target of targets) {
+    const invalid = generator.generateInvalid(target);
+    assertEquals(invalid.path, target.path);
+    assertEquals(invalid.issue.type, target.type);
+    assertSingleIssue(UserSchema, invalid.value, target.path, target.type);
+  }
+});
+
+Deno.test("Invalid: nested items and any constraint", () => {
+  const generator = createMockGenerator(UserSchema);
+
+  const item = generator.generateInvalid({ path: "tags[0]", type: "non_empty" });
+  assertEquals((item.value as { tags: string[] }).tags[0], "");
+  assertSingleIssue(UserSchema, item.value, "tags[0]", "non_empty");
+
+  for (let i = 0; i < 20; i++) {
+    const invalid = generator.generateInvalid();
+    assertSingleIssue(UserSchema, invalid.value, invalid.path, invalid.issue.type);
+  }
+});
+
+Deno.test("Invalid: only the path or only the type", () => {
+  const generator = createMockGenerator(UserSchema);
+
+  const byType = generator.generateInvalid({ type: "email" });
+  assertEquals(byType.path, "email");
+
+  const byPath = generator.generateInvalid({ path: "age" });
+  assertSingleIssue(UserSchema, byPath.value, "age", byPath.issue.type);
+});
+
+Deno.test("Invalid: variants and optional values", () => {
+  const schema = v.object({
+    payment: v.variant("type", [
+      v.object({ type: v.literal("card"), last4: v.pipe(v.string(), v.digits(), v.length(4)) }),
+      v.object({ type: v.literal("cash") }),
+    ]),
+    note: v.optional(v.pipe(v.string(), v.maxLength(5))),
+  });
+  const generator = createMockGenerator(schema, { discriminators: { type: ["card"] } });
+
+  const invalid = generator.generateInvalid({ path: "payment.last4", type: "length" });
+  assertSingleIssue(schema, invalid.value, "payment.last4", "length");
+
+  const note = generator.generateInvalid({ path: "note", type: "max_length" });
+  assertSingleIssue(schema, note.value, "note", "max_length");
+});
+
+Deno.test("Invalid: unknown constraint", () => {
+  const generator = createMockGenerator(UserSchema, { maxAttempts: 3 });
+  assertThrows(() => generator.generateInvalid({ path: "name", type: "uuid" }), Error, 'Unable to violate uuid at path "name"');
+});
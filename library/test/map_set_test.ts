@@ -0,0 +1,50 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+
+/**
+ * Tests for map and set size constraints and element uniqueness.
+ */
+
+Deno.test("Set: size constraints", () => {
+  assertFirstTry(v.pipe(v.set(v.string()), v.minSize(8)));
+  assertFirstTry(v.pipe(v.set(v.string()), v.maxSize(1)));
+  assertFirstTry(v.pipe(v.set(v.pipe(v.number(), v.integer())), v.size(12)));
+});
+
+Deno.test("Set: small picklist reaches the requested size", () => {
+  const schema = v.pipe(v.set(v.picklist(["a", "b", "c"])), v.size(3));
+  assertFirstTry(schema);
+
+  const generator = createMockGenerator(schema);
+  assertEquals([...generator.generate()].sort(), ["a", "b", "c"]);
+});
+
+Deno.test("Set: reports a domain too small for the required size", () => {
+  const generator = createMockGenerator(v.pipe(v.set(v.picklist(["a", "b"])), v.minSize(3)));
+  assertThrows(() => generator.generate(), Error, "distinct set values");
+});
+
+Deno.test("Map: size constraints with distinct keys", () => {
+  assertFirstTry(v.pipe(v.map(v.picklist(["x", "y", "z"]), v.number()), v.minSize(3)));
+  assertFirstTry(v.pipe(v.map(v.string(), v.boolean()), v.size(6)));
+  assertFirstTry(v.pipe(v.map(v.boolean(), v.string()), v.size(2)));
+});
+
+Deno.test("Map: reports a domain too small for the required size", () => {
+  const generator = createMockGenerator(v.pipe(v.map(v.boolean(), v.string()), v.size(3)));
+  assertThrows(() => generator.generate(), Error, "distinct map keys");
+});
+
+Deno.test("Map and Set: default size options", () => {
+  const map = createMockGenerator(v.map(v.pipe(v.string(), v.uuid()), v.number()), {
+    defaultMapSize: { min: 4, max: 4 },
+  });
+  const set = createMockGenerator(v.set(v.pipe(v.string(), v.uuid())), {
+    defaultSetSize: { min: 7, max: 7 },
+  });
+
+  assertEquals(map.generate().size, 4);
+  assertEquals(set.generate().size, 7);
+});
@@ -0,0 +1,82 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+import { generateNumber, getNumberConstraints } from "../src/number.ts";
+import { Faker, en } from "@faker-js/faker";
+
+/**
+ * Tests for number constraint solving.
+ * Each schema must produce a valid value on the first attempt.
+ */
+
+Deno.test("Number: price field with multipleOf(0.01) and gtValue(0)", () => {
+  assertFirstTry(v.pipe(v.number(), v.multipleOf(0.01), v.gtValue(0)));
+});
+
+Deno.test("Number: integer multipleOf within bounds", () => {
+  const schema = v.pipe(v.number(), v.multipleOf(5), v.minValue(12), v.maxValue(38));
+  assertFirstTry(schema);
+
+  const generator = createMockGenerator(schema);
+  const seen = new Set(generator.generateMany(100));
+  assertEquals([...seen].every((value) => [15, 20, 25, 30, 35].includes(value)), true);
+});
+
+Deno.test("Number: combined multipleOf uses least common multiple", () => {
+  assertFirstTry(v.pipe(v.number(), v.multipleOf(4), v.multipleOf(6), v.minValue(0), v.maxValue(100)));
+});
+
+Deno.test("Number: exclusive bounds", () => {
+  assertFirstTry(v.pipe(v.number(), v.gtValue(1), v.ltValue(2)));
+  assertFirstTry(v.pipe(v.number(), v.integer(), v.gtValue(1), v.ltValue(3)));
+});
+
+Deno.test("Number: notValue and notValues", () => {
+  const schema = v.pipe(
+    v.number(),
+    v.integer(),
+    v.minValue(1),
+    v.maxValue(4),
+    v.notValue(2),
+    v.notValues([1, 3]),
+  );
+  assertFirstTry(schema);
+
+  const generator = createMockGenerator(schema);
+  assertEquals(generator.generate(), 4);
+});
+
+Deno.test("Number: safeInteger and finite", () => {
+  assertFirstTry(v.pipe(v.number(), v.safeInteger(), v.finite()));
+  assertFirstTry(v.pipe(v.number(), v.safeInteger(), v.minValue(Number.MAX_SAFE_INTEGER - 10)));
+});
+
+Deno.test("Number: bound far from the default range", () => {
+  assertFirstTry(v.pipe(v.number(), v.minValue(5000)));
+  assertFirstTry(v.pipe(v.number(), v.integer(), v.maxValue(-5000)));
+});
+
+Deno.test("Number: value and values restrict the candidates", () => {
+  assertFirstTry(v.pipe(v.number(), v.values([1, 2, 3]), v.notValue(2)));
+  assertFirstTry(v.pipe(v.number(), v.value(42)));
+});
+
+Deno.test("getNumberConstraints - strictest bounds win", () => {
+  const constraints = getNumberConstraints(
+    v.pipe(v.number(), v.minValue(1), v.gtValue(1), v.maxValue(10), v.maxValue(5)),
+  );
+
+  assertEquals(constraints.min, 1);
+  assertEquals(constraints.minExclusive, true);
+  assertEquals(constraints.max, 5);
+  assertEquals(constraints.maxExclusive, false);
+});
+
+Deno.test("generateNumber - is reproducible with a seed", () => {
+  const constraints = getNumberConstraints(v.pipe(v.number(), v.multipleOf(3)));
+  const first = new Faker({ locale: [en], seed: 7 });
+  const second = new Faker({ locale: [en], seed: 7 });
+
+  assertEquals(generateNumber(constraints, first), generateNumber(constraints, second));
+});
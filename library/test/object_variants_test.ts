@@ -0,0 +1,96 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+
+/**
+ * Tests for loose, strict and with-rest object and tuple variants.
+ */
+
+const entries = {
+  id: v.pipe(v.string(), v.uuid()),
+  count: v.pipe(v.number(), v.integer()),
+};
+
+Deno.test("Object variants: strictObject has only declared keys", () => {
+  const schema = v.strictObject(entries);
+  assertFirstTry(schema);
+
+  const generator = createMockGenerator(schema);
+  assertEquals(Object.keys(generator.generate()).sort(), ["count", "id"]);
+});
+
+Deno.test("Object variants: looseObject adds extra keys", () => {
+  const schema = v.looseObject(entries);
+  assertFirstTry(schema);
+
+  const generator = createMockGenerator(schema, { extraProperties: { min: 2, max: 2 } });
+  const result = generator.generate() as Record<string, unknown>;
+  assertEquals(Object.keys(result).length, 4);
+});
+
+Deno.test("Object variants: objectWithRest draws extra values from the rest schema", () => {
+  const schema = v.objectWithRest(entries, v.pipe(v.number(), v.minValue(100)));
+  assertFirstTry(schema, { extraProperties: { min: 1, max: 4 } });
+
+  const generator = createMockGenerator(schema, { extraProperties: { min: 3, max: 3 } });
+  const result = generator.generate() as Record<string, unknown>;
+  const extras = Object.keys(result).filter((key) => !(key in entries));
+  assertEquals(extras.length, 3);
+  assertEquals(extras.every((key) => typeof result[key] === "number" && (result[key] as number) >= 100), true);
+});
+
+Deno.test("Object variants: extraProperties can disable extra keys", () => {
+  const generator = createMockGenerator(v.looseObject(entries), { extraProperties: { max: 0 } });
+  for (let i = 0; i < 10; i++) {
+    assertEquals(Object.keys(generator.generate()).sort(), ["count", "id"]);
+  }
+});
+
+Deno.test("Object variants: objectWithRest and tupleWithRest add nothing with a never rest", () => {
+  const objects = createMockGenerator(v.objectWithRest(entries, v.never()), { extraProperties: { min: 3 } });
+  for (const result of objects.generateMany(5)) {
+    assertEquals(Object.keys(result).sort(), ["count", "id"]);
+  }
+
+  const tuples = createMockGenerator(v.tupleWithRest([v.string()], v.never()), { extraItems: { min: 3 } });
+  for (const result of tuples.generateMany(5)) {
+    assertEquals(result.length, 1);
+  }
+});
+
+Deno.test("Tuple variants: strictTuple has only declared items", () => {
+  const schema = v.strictTuple([v.string(), v.number()]);
+  assertFirstTry(schema);
+
+  const generator = createMockGenerator(schema);
+  assertEquals(generator.generate().length, 2);
+});
+
+Deno.test("Tuple variants: looseTuple and tupleWithRest add trailing items", () => {
+  assertFirstTry(v.looseTuple([v.string(), v.number()]));
+  assertFirstTry(v.tupleWithRest([v.string()], v.pipe(v.string(), v.email())));
+
+  const generator = createMockGenerator(
+    v.tupleWithRest([v.literal("head")], v.boolean()),
+    { extraItems: { min: 2, max: 2 } },
+  );
+  const result = generator.generate();
+  assertEquals(result.length, 3);
+  assertEquals(result[0], "head");
+  assertEquals(typeof result[2], "boolean");
+});
+
+Deno.test("Tuple variants: optional items are generated as undefined", () => {
+  assertFirstTry(v.tuple([v.string(), v.optional(v.number())]));
+});
+
+Deno.test("Object variants: extraProperties and extraItems raise the maximum to the minimum", () => {
+  const objects = createMockGenerator(v.looseObject(entries), { extraProperties: { min: 5 } });
+  for (const result of objects.generateMany(200)) {
+    assertEquals(Object.keys(result).length, 7);
+  }
+
+  const tuples = createMockGenerator(v.looseTuple([v.string()]), { extraItems: { min: 5 } });
+  assertEquals(tuples.generate().length, 6);
+});
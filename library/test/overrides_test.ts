@@ -0,0 +1,78 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { fake } from "../src/fake.ts";
+
+/**
+ * Tests for per-call overrides.
+ */
+
+const UserSchema = v.object({
+  name: v.pipe(v.string(), v.minLength(2), v.maxLength(20)),
+  age: v.pipe(v.number(), v.integer(), v.minValue(18), v.maxValue(120)),
+  email: v.pipe(v.string(), v.email()),
+  tags: v.array(v.string()),
+  address: v.object({
+    city: v.string(),
+    zip: v.pipe(v.string(), v.regex(/^\d{5}$/)),
+  }),
+  createdAt: v.date(),
+});
+
+Deno.test("Overrides: values are deep merged", () => {
+  const generator = createMockGenerator(UserSchema);
+  const createdAt = new Date("2024-01-01");
+  const user = generator.generate({ age: 42, tags: ["admin"], address: { city: "Paris" }, createdAt });
+
+  assertEquals(user.age, 42);
+  assertEquals(user.tags, ["admin"]);
+  assertEquals(user.address.city, "Paris");
+  assertEquals(/^\d{5}$/.test(user.address.zip), true);
+  assertEquals(user.createdAt, createdAt);
+  assertEquals(v.is(UserSchema, user), true);
+});
+
+Deno.test("Overrides: functions receive the index and the generated value", () => {
+  const generator = createMockGenerator(UserSchema);
+  const users = generator.generateMany(3, {
+    email: (_faker, { index }) => `user${index}@example.com`,
+    name: (_faker, { path, value }) => `${path}-${value!.length}`.slice(0, 20),
+    address: { city: (faker) => faker.location.city() },
+  });
+
+  assertEquals(users.map((user) => user.email), ["user0@example.com", "user1@example.com", "user2@example.com"]);
+  for (const user of users) {
+    assertEquals(user.name.startsWith("name-"), true);
+    assertEquals(v.is(UserSchema, user), true);
+  }
+});
+
+Deno.test("Overrides: broken constraints are reported", () => {
+  const generator = createMockGenerator(UserSchema);
+  assertThrows(() => generator.generate({ age: 12 }), Error, 'override of "age" breaks min_value at "age"');
+  assertThrows(() => generator.generate({ address: { zip: "abc" } }), Error, 'override of "address.zip" breaks regex at "address.zip"');
+  assertThrows(() => generator.generate({ tags: ["ok", 1 as unknown as string] }), Error, 'override of "tags" breaks string at "tags[1]"');
+});
+
+Deno.test("Overrides: checks of enclosing objects", () => {
+  const schema = v.pipe(
+    v.object({ min: v.number(), max: v.number() }),
+    v.check(({ min, max }) => min <= max, "min above max"),
+  );
+  const generator = createMockGenerator(schema);
+
+  assertEquals(generator.generate({ min: 1, max: 2 }), { min: 1, max: 2 });
+  assertThrows(() => generator.generate({ min: 3, max: 2 }), Error, 'override of "min" breaks check at "": min above max');
+});
+
+Deno.test("Overrides: broken own constraints fail without retrying", () => {
+  let generated = 0;
+  const schema = v.object({
+    name: v.pipe(v.string(), fake(() => `user-${++generated}`)),
+    age: v.pipe(v.number(), v.minValue(18)),
+  });
+  const generator = createMockGenerator(schema);
+
+  assertThrows(() => generator.generate({ age: 12 }), Error, 'override of "age" breaks min_value at "age"');
+  assertEquals(generated, 1);
+});
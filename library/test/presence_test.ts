@@ -0,0 +1,61 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { Faker, en } from "@faker-js/faker";
+import { createMockGenerator } from "../src/generator.ts";
+import { drawOutcome, presence } from "../src/presence.ts";
+
+/**
+ * Tests for the presence probabilities of optional, nullable and nullish schemas.
+ */
+
+const countWhere = <T>(values: T[], predicate: (value: T) => boolean) => values.filter(predicate).length;
+
+Deno.test("Presence: optionalProbability option", () => {
+  const schema = v.object({ nickname: v.optional(v.string()) });
+
+  const always = createMockGenerator(schema, { optionalProbability: 1 });
+  assertEquals(always.generateMany(30).every((user) => typeof user.nickname === "string"), true);
+
+  const never = createMockGenerator(schema, { optionalProbability: 0 });
+  assertEquals(never.generateMany(30).every((user) => user.nickname === undefined), true);
+
+  const mostly = createMockGenerator(schema, { optionalProbability: 0.9, faker: { locale: [en], seed: 3 } });
+  const filled = countWhere(mostly.generateMany(200), (user) => user.nickname !== undefined);
+  assertEquals(filled > 160, true, `Unexpected filled count: ${filled}`);
+});
+
+Deno.test("Presence: nullProbability and undefinedProbability options", () => {
+  const nullable = createMockGenerator(v.nullable(v.number()), { nullProbability: 1 });
+  assertEquals(nullable.generateMany(20).every((value) => value === null), true);
+
+  const undefinedable = createMockGenerator(v.undefinedable(v.number()), { undefinedProbability: 0 });
+  assertEquals(undefinedable.generateMany(20).every((value) => typeof value === "number"), true);
+
+  const nullish = createMockGenerator(v.nullish(v.number()), { nullProbability: 0, undefinedProbability: 1 });
+  assertEquals(nullish.generateMany(20).every((value) => value === undefined), true);
+
+  const present = createMockGenerator(v.nullish(v.number()), { nullProbability: 0, undefinedProbability: 0 });
+  assertEquals(present.generateMany(20).every((value) => typeof value === "number"), true);
+});
+
+Deno.test("Presence: per-schema override with presence()", () => {
+  const schema = v.object({
+    bio: v.pipe(v.optional(v.string()), presence({ optionalProbability: 1 })),
+    avatar: v.optional(v.string()),
+    deletedAt: v.pipe(v.nullable(v.date()), presence({ nullProbability: 1 })),
+  });
+  const generator = createMockGenerator(schema, { optionalProbability: 0 });
+
+  for (const user of generator.generateMany(20)) {
+    assertEquals(typeof user.bio, "string");
+    assertEquals(user.avatar, undefined);
+    assertEquals(user.deletedAt, null);
+  }
+});
+
+Deno.test("drawOutcome - picks outcomes with their probability", () => {
+  const faker = new Faker({ locale: [en], seed: 1 });
+  assertEquals(drawOutcome(faker, [1, 0]), 0);
+  assertEquals(drawOutcome(faker, [0, 1]), 1);
+  assertEquals(drawOutcome(faker, [0, 0]), 2);
+});
@@ -0,0 +1,61 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+
+/**
+ * Tests for record generation driven by the key schema and entry counts.
+ */
+
+Deno.test("Record: picklist keys", () => {
+  const schema = v.record(v.picklist(["en", "fr", "de"]), v.string());
+  assertFirstTry(schema);
+
+  const generator = createMockGenerator(schema);
+  for (const result of generator.generateMany(20)) {
+    assertEquals(Object.keys(result).every((key) => ["en", "fr", "de"].includes(key)), true);
+  }
+});
+
+Deno.test("Record: enum keys", () => {
+  enum Status {
+    Active = "active",
+    Inactive = "inactive",
+  }
+  assertFirstTry(v.record(v.enum(Status), v.number()));
+});
+
+Deno.test("Record: regex and branded keys", () => {
+  assertFirstTry(v.record(v.pipe(v.string(), v.regex(/^key_[a-z]{4}$/)), v.boolean()));
+  assertFirstTry(v.record(v.pipe(v.string(), v.uuid(), v.brand("UserId")), v.string()));
+});
+
+Deno.test("Record: minEntries and maxEntries", () => {
+  assertFirstTry(v.pipe(v.record(v.string(), v.number()), v.minEntries(8)));
+  assertFirstTry(v.pipe(v.record(v.string(), v.number()), v.maxEntries(1)));
+  assertFirstTry(v.pipe(v.record(v.picklist(["a", "b", "c"]), v.number()), v.minEntries(3)));
+  assertFirstTry(v.pipe(v.record(v.string(), v.number()), v.entries(4)));
+});
+
+Deno.test("Record: defaultRecordEntries option", () => {
+  const generator = createMockGenerator(v.record(v.pipe(v.string(), v.uuid()), v.number()), {
+    defaultRecordEntries: { min: 6, max: 6 },
+  });
+  assertEquals(Object.keys(generator.generate()).length, 6);
+});
+
+Deno.test("Record: values get key-aware paths", () => {
+  const paths: string[] = [];
+  const schema = v.object({ labels: v.record(v.picklist(["only"]), v.literal(1)) });
+  const generator = createMockGenerator(schema, {
+    handlers: {
+      literal: (schema, _faker, context) => {
+        paths.push(context.path);
+        return schema.literal;
+      },
+    },
+  });
+
+  generator.generate();
+  assertEquals(paths, ["labels.only"]);
+});
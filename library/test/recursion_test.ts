@@ -0,0 +1,83 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+import { isRecursive } from "../src/recursion.ts";
+
+/**
+ * Tests for depth-bounded generation of recursive lazy schemas.
+ */
+
+type Tree = { value: number; children: Tree[] };
+const TreeSchema: v.GenericSchema<Tree> = v.object({
+  value: v.number(),
+  children: v.array(v.lazy(() => TreeSchema)),
+});
+
+type Comment = { text: string; reply?: Comment | undefined; parent: Comment | null };
+const CommentSchema: v.GenericSchema<Comment> = v.object({
+  text: v.string(),
+  reply: v.optional(v.lazy(() => CommentSchema)),
+  parent: v.nullable(v.lazy(() => CommentSchema)),
+});
+
+type Expression = number | { op: "add"; left: Expression; right: Expression };
+const ExpressionSchema: v.GenericSchema<Expression> = v.union([
+  v.object({
+    op: v.literal("add"),
+    left: v.lazy(() => ExpressionSchema),
+    right: v.lazy(() => ExpressionSchema),
+  }),
+  v.number(),
+]);
+
+const treeDepth = (tree: Tree): number => 1 + Math.max(0, ...tree.children.map(treeDepth));
+const commentDepth = (comment: Comment | null | undefined): number =>
+  comment ? 1 + Math.max(commentDepth(comment.reply), commentDepth(comment.parent)) : 0;
+const expressionDepth = (expression: Expression): number =>
+  typeof expression === "number" ? 0 : 1 + Math.max(expressionDepth(expression.left), expressionDepth(expression.right));
+
+Deno.test("Recursion: isRecursive detects lazy schemas", () => {
+  assertEquals(isRecursive(TreeSchema), true);
+  assertEquals(isRecursive(v.array(v.lazy(() => v.string()))), true);
+  assertEquals(isRecursive(v.object({ name: v.string(), tags: v.array(v.string()) })), false);
+});
+
+Deno.test("Recursion: tree children stop at the maximum depth", () => {
+  assertFirstTry(TreeSchema);
+
+  const generator = createMockGenerator(TreeSchema);
+  for (const tree of generator.generateMany(30)) {
+    assertEquals(treeDepth(tree) <= 4, true);
+  }
+});
+
+Deno.test("Recursion: optional and nullable branches terminate", () => {
+  assertFirstTry(CommentSchema);
+
+  const generator = createMockGenerator(CommentSchema);
+  for (const comment of generator.generateMany(30)) {
+    assertEquals(commentDepth(comment) <= 4, true);
+  }
+});
+
+Deno.test("Recursion: union picks a non-recursive member at the limit", () => {
+  assertFirstTry(ExpressionSchema);
+
+  const generator = createMockGenerator(ExpressionSchema);
+  for (const expression of generator.generateMany(30)) {
+    assertEquals(expressionDepth(expression) <= 4, true);
+  }
+});
+
+Deno.test("Recursion: maxDepth option", () => {
+  const flat = createMockGenerator(TreeSchema, { maxDepth: 0 });
+  for (const tree of flat.generateMany(10)) {
+    assertEquals(tree.children, []);
+  }
+
+  const deep = createMockGenerator(TreeSchema, { maxDepth: 1, defaultArrayMaxLength: 2 });
+  for (const tree of deep.generateMany(10)) {
+    assertEquals(treeDepth(tree) <= 2, true);
+  }
+});
@@ -0,0 +1,66 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { createSession, hasIdentifiers, identifier, reference } from "../src/reference.ts";
+
+/**
+ * Tests for references between generated entities.
+ */
+
+const UserSchema = v.object({
+  id: v.pipe(v.string(), v.uuid(), identifier("user")),
+  name: v.string(),
+});
+
+const PostSchema = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1), identifier("post")),
+  authorId: v.pipe(v.string(), reference("user")),
+  reviewerId: v.nullable(v.pipe(v.string(), reference("user"))),
+  tagIds: v.array(v.pipe(v.number(), reference("tag"))),
+});
+
+const TagSchema = v.object({ id: v.pipe(v.number(), identifier("tag")) });
+
+Deno.test("Reference: generators of a session point at generated entities", () => {
+  const session = createSession();
+  const users = createMockGenerator(UserSchema, { session }).generateMany(3);
+  const tags = createMockGenerator(TagSchema, { session }).generateMany(2);
+  const posts = createMockGenerator(PostSchema, { session }).generateMany(20);
+
+  const userIds = users.map((user) => user.id);
+  const tagIds = tags.map((tag) => tag.id);
+  for (const post of posts) {
+    assertEquals(userIds.includes(post.authorId), true);
+    assertEquals(post.reviewerId === null || userIds.includes(post.reviewerId), true);
+    assertEquals(post.tagIds.every((id) => tagIds.includes(id)), true);
+  }
+  assertEquals(session.references.get("user"), userIds);
+  assertEquals(session.references.get("post")?.length, 20);
+});
+
+Deno.test("Reference: overridden identifiers and nested entities", () => {
+  const session = createSession();
+  const TeamSchema = v.object({ members: v.pipe(v.array(UserSchema), v.length(2)) });
+  const team = createMockGenerator(TeamSchema, { session }).generate();
+  createMockGenerator(UserSchema, { session }).generate({ id: "00000000-0000-4000-8000-000000000000" });
+
+  assertEquals(session.references.get("user"), [
+    ...team.members.map((member) => member.id),
+    "00000000-0000-4000-8000-000000000000",
+  ]);
+});
+
+Deno.test("Reference: without a session, references stay within the generator", () => {
+  createMockGenerator(UserSchema).generateMany(3);
+  assertThrows(() => createMockGenerator(PostSchema).generate(), Error, 'No generated user to reference at path "authorId"');
+});
+
+Deno.test("Reference: only schemas marking identifiers record values", () => {
+  const session = createSession();
+  createMockGenerator(v.object({ id: v.string() }), { session }).generateMany(5);
+  assertEquals(session.references.size, 0);
+
+  assertEquals(hasIdentifiers(v.object({ users: v.array(v.optional(UserSchema)) })), true);
+  assertEquals(hasIdentifiers(PostSchema), true);
+  assertEquals(hasIdentifiers(v.object({ authorId: v.pipe(v.string(), reference("user")) })), false);
+});
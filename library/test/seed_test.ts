@@ -0,0 +1,69 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import * as v from "valibot";
+import { en } from "@faker-js/faker";
+import { createMockGenerator } from "../src/generator.ts";
+import { deriveSeed } from "../src/seed.ts";
+
+/**
+ * Tests for path-stable seeding.
+ */
+
+const options = { faker: { locale: [en], seed: 42 }, seedByPath: true };
+
+const UserSchema = v.object({
+  name: v.string(),
+  age: v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(120)),
+  code: v.pipe(v.string(), v.regex(/^[A-Z]{3}\d{2}$/)),
+  tags: v.array(v.string()),
+  address: v.object({ city: v.string() }),
+});
+
+Deno.test("Seed by path: fields keep their values when the schema evolves", () => {
+  const EvolvedSchema = v.object({
+    id: v.pipe(v.string(), v.uuid()),
+    ...UserSchema.entries,
+    nickname: v.optional(v.string()),
+    address: v.object({ zip: v.string(), city: v.string() }),
+  });
+
+  const users = createMockGenerator(UserSchema, options).generateMany(5);
+  const evolved = createMockGenerator(EvolvedSchema, options).generateMany(5);
+
+  users.forEach((user, index) => {
+    const { id: _id, nickname: _nickname, address, ...rest } = evolved[index]!;
+    assertEquals(rest, { name: user.name, age: user.age, code: user.code, tags: user.tags });
+    assertEquals(address.city, user.address.city);
+  });
+});
+
+Deno.test("Seed by path: array items keep their values", () => {
+  const schema = v.object({ ids: v.pipe(v.array(v.pipe(v.string(), v.uuid())), v.length(3)) });
+  const longer = v.object({ ids: v.pipe(v.array(v.pipe(v.string(), v.uuid())), v.length(5)) });
+
+  const [value] = createMockGenerator(schema, options).generateMany(1);
+  const [longerValue] = createMockGenerator(longer, options).generateMany(1);
+  assertEquals(longerValue!.ids.slice(0, 3), value!.ids);
+});
+
+Deno.test("Seed by path: reproducible and distinct values", () => {
+  const first = createMockGenerator(UserSchema, options).generateMany(3);
+  assertEquals(createMockGenerator(UserSchema, options).generateMany(3), first);
+  assertNotEquals(first[0], first[1]);
+  assertNotEquals(createMockGenerator(UserSchema, { ...options, faker: { locale: [en], seed: 7 } }).generate(), first[0]);
+});
+
+Deno.test("Seed by path: retries draw new values", () => {
+  const schema = v.pipe(
+    v.object({ a: v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(9)), b: v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(9)) }),
+    v.check(({ a, b }) => a + b === 9),
+  );
+  for (const value of createMockGenerator(schema, { ...options, maxAttempts: 200 }).generateMany(5)) {
+    assertEquals(value.a + value.b, 9);
+  }
+});
+
+Deno.test("deriveSeed - distinct keys get distinct seeds", () => {
+  assertEquals(deriveSeed(1, "name"), deriveSeed(1, "name"));
+  assertNotEquals(deriveSeed(1, "name"), deriveSeed(1, "email"));
+  assertNotEquals(deriveSeed(1, "name"), deriveSeed(2, "name"));
+});
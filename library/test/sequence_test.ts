@@ -0,0 +1,77 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { fake } from "../src/fake.ts";
+import { createSequences, sequence } from "../src/sequence.ts";
+
+/**
+ * Tests for named sequences.
+ */
+
+const UserSchema = v.object({
+  id: v.pipe(v.string(), sequence("user", (n) => `user-${n}`)),
+  rank: v.pipe(v.number(), sequence("rank")),
+  slug: v.pipe(v.string(), fake((faker, context) => `${faker.word.noun()}-${context.sequences.next("slug")}`)),
+});
+
+Deno.test("Sequence: values count across generated values", () => {
+  const generator = createMockGenerator(UserSchema);
+  const users = [generator.generate(), ...generator.generateMany(2)];
+
+  assertEquals(users.map((user) => user.id), ["user-1", "user-2", "user-3"]);
+  assertEquals(users.map((user) => user.rank), [1, 2, 3]);
+  assertEquals(users.map((user) => user.slug.split("-").at(-1)), ["1", "2", "3"]);
+});
+
+Deno.test("Sequence: shared by name and per generator", () => {
+  const schema = v.object({
+    author: v.pipe(v.number(), sequence("id")),
+    reviewer: v.pipe(v.number(), sequence("id")),
+    items: v.pipe(v.array(v.pipe(v.string(), sequence("item", (n) => `item-${n}`))), v.length(3)),
+  });
+
+  const generator = createMockGenerator(schema);
+  assertEquals(generator.generate(), { author: 1, reviewer: 2, items: ["item-1", "item-2", "item-3"] });
+  assertEquals(createMockGenerator(schema).generate().author, 1);
+});
+
+Deno.test("Sequence: reset per name or all", () => {
+  const generator = createMockGenerator(UserSchema);
+  generator.generateMany(3);
+
+  generator.resetSequences("user");
+  assertEquals([generator.generate().id, generator.generate().rank], ["user-1", 5]);
+
+  generator.resetSequences();
+  const user = generator.generate();
+  assertEquals([user.id, user.rank], ["user-1", 1]);
+});
+
+Deno.test("Sequence: discarded attempts draw no value", () => {
+  const schema = v.pipe(
+    v.object({
+      id: v.pipe(v.string(), sequence("user", (n) => `user-${n}`)),
+      score: v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(9)),
+      bonus: v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(9)),
+    }),
+    v.check(({ score, bonus }) => score + bonus > 12),
+  );
+  const generator = createMockGenerator(schema, { maxAttempts: 500 });
+
+  const ids = generator.generateMany(4).map((value) => value.id);
+  generator.generateInvalid({ path: "score", type: "max_value" });
+  ids.push(generator.generate({ score: 9 }).id);
+  assertEquals(ids, ["user-1", "user-2", "user-3", "user-4", "user-5"]);
+});
+
+Deno.test("createSequences - counts from 1", () => {
+  const sequences = createSequences();
+  assertEquals([sequences.next("a"), sequences.next("a"), sequences.next("b")], [1, 2, 1]);
+  sequences.reset("a");
+  assertEquals([sequences.next("a"), sequences.next("b")], [1, 2]);
+
+  const snapshot = sequences.snapshot();
+  sequences.next("a");
+  sequences.restore(snapshot);
+  assertEquals(sequences.next("a"), 2);
+});
@@ -0,0 +1,95 @@
+import * as v from "valibot";
+import { assertFirstTry } from "./helpers.ts";
+
+/**
+ * Tests for the string validation action catalogue.
+ * Each format must produce a valid value on the first attempt.
+ */
+
+const FORMATS = {
+  email: v.email(),
+  rfcEmail: v.rfcEmail(),
+  url: v.url(),
+  uuid: v.uuid(),
+  ip: v.ip(),
+  ipv4: v.ipv4(),
+  ipv6: v.ipv6(),
+  cuid2: v.cuid2(),
+  ulid: v.ulid(),
+  nanoid: v.nanoid(),
+  hexColor: v.hexColor(),
+  base64: v.base64(),
+  emoji: v.emoji(),
+  mac: v.mac(),
+  mac48: v.mac48(),
+  mac64: v.mac64(),
+  isoDate: v.isoDate(),
+  isoDateTime: v.isoDateTime(),
+  isoTime: v.isoTime(),
+  isoTimeSecond: v.isoTimeSecond(),
+  isoTimestamp: v.isoTimestamp(),
+  isoWeek: v.isoWeek(),
+  creditCard: v.creditCard(),
+  imei: v.imei(),
+  bic: v.bic(),
+  digits: v.digits(),
+  hexadecimal: v.hexadecimal(),
+  octal: v.octal(),
+  decimal: v.decimal(),
+  slug: v.slug(),
+};
+
+for (const [name, action] of Object.entries(FORMATS)) {
+  Deno.test(`String format: ${name}`, () => {
+    assertFirstTry(v.pipe(v.string(), action as v.GenericValidation<string>));
+  });
+}
+
+Deno.test("String format: variable length formats honour length bounds", () => {
+  const variable = [v.cuid2(), v.nanoid(), v.digits(), v.hexadecimal(), v.octal(), v.decimal(), v.slug()];
+  for (const action of variable) {
+    assertFirstTry(v.pipe(v.string(), action, v.minLength(30), v.maxLength(40)), {}, 10);
+    assertFirstTry(v.pipe(v.string(), action, v.length(7)), {}, 10);
+  }
+});
+
+Deno.test("String format: email and url honour length bounds", () => {
+  assertFirstTry(v.pipe(v.string(), v.email(), v.maxLength(8)));
+  assertFirstTry(v.pipe(v.string(), v.email(), v.minLength(50)));
+  assertFirstTry(v.pipe(v.string(), v.url(), v.maxLength(14)));
+});
+
+Deno.test("String format: fixed length variants are picked to fit", () => {
+  assertFirstTry(v.pipe(v.string(), v.hexColor(), v.length(4)));
+  assertFirstTry(v.pipe(v.string(), v.hexColor(), v.minLength(8)));
+  assertFirstTry(v.pipe(v.string(), v.bic(), v.length(11)));
+  assertFirstTry(v.pipe(v.string(), v.mac(), v.maxLength(14)));
+  assertFirstTry(v.pipe(v.string(), v.imei(), v.length(18)));
+  assertFirstTry(v.pipe(v.string(), v.creditCard(), v.maxLength(16)));
+});
+
+Deno.test("String format: base64 and emoji honour length bounds", () => {
+  assertFirstTry(v.pipe(v.string(), v.base64(), v.minLength(20), v.maxLength(24)));
+  assertFirstTry(v.pipe(v.string(), v.emoji(), v.length(4)));
+});
+
+Deno.test("String format: ip addresses honour length bounds", () => {
+  assertFirstTry(v.pipe(v.string(), v.ipv6(), v.maxLength(20)));
+  assertFirstTry(v.pipe(v.string(), v.ipv6(), v.length(3)));
+  assertFirstTry(v.pipe(v.string(), v.ipv6(), v.minLength(14), v.maxLength(16)));
+  assertFirstTry(v.pipe(v.string(), v.ipv4(), v.maxLength(9)));
+  assertFirstTry(v.pipe(v.string(), v.ipv4(), v.length(15)));
+  assertFirstTry(v.pipe(v.string(), v.ip(), v.maxLength(12)));
+  assertFirstTry(v.pipe(v.string(), v.ip(), v.length(4)));
+  for (let length = 2; length <= 39; length++) {
+    assertFirstTry(v.pipe(v.string(), v.ipv6(), v.length(length)), {}, 10);
+  }
+  for (let length = 7; length <= 15; length++) {
+    assertFirstTry(v.pipe(v.string(), v.ipv4(), v.length(length)), {}, 10);
+  }
+});
+
+Deno.test("String: length and nonEmpty without format", () => {
+  assertFirstTry(v.pipe(v.string(), v.length(40)));
+  assertFirstTry(v.pipe(v.string(), v.nonEmpty()));
+});
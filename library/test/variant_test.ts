@@ -0,0 +1,83 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import * as v from "valibot";
+import { createMockGenerator } from "../src/generator.ts";
+import { assertFirstTry } from "./helpers.ts";
+import { en } from "@faker-js/faker";
+import { getDiscriminatorValues, getVariantBranches } from "../src/variant.ts";
+
+/**
+ * Tests for discriminator-aware variant generation.
+ */
+
+const PaymentSchema = v.variant("type", [
+  v.object({ type: v.literal("card"), number: v.pipe(v.string(), v.creditCard()) }),
+  v.object({ type: v.literal("bank"), iban: v.string() }),
+  v.object({ type: v.literal("cash") }),
+]);
+
+const EventSchema = v.variant("type", [
+  v.variant("kind", [
+    v.object({ type: v.literal("user"), kind: v.literal("created"), name: v.string() }),
+    v.object({ type: v.literal("user"), kind: v.literal("deleted"), reason: v.string() }),
+  ]),
+  v.variant("type", [
+    v.object({ type: v.literal("order"), total: v.number() }),
+    v.object({ type: v.picklist(["refund", "chargeback"]), amount: v.number() }),
+  ]),
+]);
+
+Deno.test("Variant: discriminator values of entry schemas", () => {
+  assertEquals(getDiscriminatorValues(v.literal("a")), ["a"]);
+  assertEquals(getDiscriminatorValues(v.picklist(["a", "b"])), ["a", "b"]);
+  assertEquals(getDiscriminatorValues(v.union([v.literal(1), v.literal(2)])), [1, 2]);
+  assertEquals(getDiscriminatorValues(v.string()), null);
+  assertEquals(getVariantBranches(EventSchema).length, 4);
+});
+
+Deno.test("Variant: discriminator matches the generated option", () => {
+  assertFirstTry(PaymentSchema);
+
+  const generator = createMockGenerator(PaymentSchema);
+  for (const payment of generator.generateMany(30)) {
+    if (payment.type === "card") assertEquals(typeof payment.number, "string");
+    if (payment.type === "bank") assertEquals(typeof payment.iban, "string");
+  }
+});
+
+Deno.test("Variant: nested variants sharing or differing in keys", () => {
+  assertFirstTry(EventSchema);
+});
+
+Deno.test("Variant: pinned discriminator values", () => {
+  const generator = createMockGenerator(PaymentSchema, { discriminators: { type: ["card"] } });
+  for (const payment of generator.generateMany(20)) {
+    assertEquals(payment.type, "card");
+  }
+
+  const events = createMockGenerator(EventSchema, { discriminators: { type: ["user"], kind: ["deleted"] } });
+  for (const event of events.generateMany(20)) {
+    assertEquals([event.type, "kind" in event ? event.kind : undefined], ["user", "deleted"]);
+  }
+
+  const refunds = createMockGenerator(EventSchema, { discriminators: { type: ["refund"] } });
+  for (const event of refunds.generateMany(20)) {
+    assertEquals(event.type, "refund");
+  }
+});
+
+Deno.test("Variant: weighted discriminator values", () => {
+  const generator = createMockGenerator(PaymentSchema, {
+    discriminators: { type: { card: 8, bank: 0 } },
+    faker: { locale: [en], seed: 7 },
+  });
+  const types = generator.generateMany(200).map((payment) => payment.type);
+
+  assertEquals(types.includes("bank"), false);
+  const cards = types.filter((type) => type === "card").length;
+  assertEquals(cards > 140 && cards < 200, true, `Unexpected card count: ${cards}`);
+});
+
+Deno.test("Variant: no option matches the pinned values", () => {
+  const generator = createMockGenerator(PaymentSchema, { discriminators: { type: ["crypto"] } });
+  assertThrows(() => generator.generate(), Error, 'No option of variant "type"');
+});
@@ -0,0 +1,58 @@
+import { assertEquals } from "@std/assert";
+import * as v from "valibot";
+import { isPlainObject, walkSchemaValue } from "../src/walk.ts";
+
+/**
+ * Tests for the walk of a schema along one of its values.
+ */
+
+const visitedPaths = (schema: v.GenericSchema, value: unknown): string[] => {
+  const paths: string[] = [];
+  walkSchemaValue(schema, value, (schema, _value, path) => {
+    if (schema.type === "string") paths.push(path);
+  });
+  return paths;
+};
+
+Deno.test("Walk: follows entries, items and record values present in the value", () => {
+  const schema = v.object({
+    name: v.string(),
+    nickname: v.optional(v.string()),
+    tags: v.array(v.string()),
+    pair: v.tuple([v.string(), v.number()]),
+    labels: v.record(v.string(), v.string()),
+  });
+  const value = { name: "a", tags: ["b", "c"], pair: ["d", 1], labels: { en: "e" } };
+
+  assertEquals(visitedPaths(schema, value), ["name", "tags[0]", "tags[1]", "pair[0]", "labels.en"]);
+});
+
+Deno.test("Walk: leaves wrappers on empty values and follows the matching option", () => {
+  const schema = v.object({
+    note: v.nullable(v.string()),
+    id: v.union([v.number(), v.string()]),
+    shape: v.variant("type", [
+      v.object({ type: v.literal("circle"), label: v.string() }),
+      v.object({ type: v.literal("square"), size: v.number() }),
+    ]),
+  });
+
+  assertEquals(visitedPaths(schema, { note: null, id: 1, shape: { type: "square", size: 2 } }), []);
+  assertEquals(visitedPaths(schema, { note: "a", id: "b", shape: { type: "circle", label: "c" } }), ["note", "id", "shape.label"]);
+});
+
+Deno.test("Walk: passes the location of every value", () => {
+  const keys: Array<Array<string | number>> = [];
+  walkSchemaValue(v.object({ items: v.array(v.number()) }), { items: [1] }, (_schema, _value, _path, location) => {
+    keys.push(location);
+  });
+  assertEquals(keys, [[], ["items"], ["items", 0]]);
+});
+
+Deno.test("Walk: isPlainObject accepts object literals only", () => {
+  assertEquals(isPlainObject({ a: 1 }), true);
+  assertEquals(isPlainObject(Object.create(null)), true);
+  assertEquals(isPlainObject(new Date()), false);
+  assertEquals(isPlainObject([]), false);
+  assertEquals(isPlainObject(null), false);
+});